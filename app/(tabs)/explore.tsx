@@ -1,65 +1,69 @@
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { audioService } from "@/services/AppAudio";
 import { Track } from "@/services/AudioService";
+import { LibraryState, libraryStore } from "@/services/LibraryStore";
+import { MAX_CROSSFADE, MAX_FADE, PlaybackSettings, playbackSettings } from "@/services/PlaybackSettings";
+import { PlaylistFormat } from "@/services/PlaylistFormats";
+import {
+  exportPlaylistFile,
+  importPlaylistFile,
+  Playlist,
+  playlistService,
+  resolvePlaylist,
+} from "@/services/PlaylistService";
+import Slider from "@react-native-community/slider";
 import * as DocumentPicker from "expo-document-picker";
-import * as MediaLibrary from "expo-media-library";
 import React, { useEffect, useState } from "react";
 import { Alert, ScrollView, StyleSheet, View } from "react-native";
-import { ActivityIndicator, Button, Card, Divider, List, Modal, Portal, Text, Title } from "react-native-paper";
-
-interface SettingsProps {
-  onTracksLoaded?: (tracks: Track[]) => void;
-}
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  Divider,
+  List,
+  Modal,
+  Portal,
+  RadioButton,
+  SegmentedButtons,
+  Text,
+  Title,
+} from "react-native-paper";
+
+// How many unmatched entries to list in the import summary before truncating
+const MAX_UNMATCHED_SHOWN = 10;
+
+// Fade and crossfade sliders move in half-second steps
+const FADE_STEP = 500;
+
+const formatSeconds = (milliseconds: number) => (milliseconds === 0 ? "Off" : `${milliseconds / 1000} s`);
 
 export default function SettingsScreen() {
   const [isLoading, setIsLoading] = useState(false);
-  const [permissionStatus, setPermissionStatus] = useState<MediaLibrary.PermissionResponse | null>(null);
-  const [libraryStats, setLibraryStats] = useState({ trackCount: 0, folderCount: 0 });
+  const [library, setLibrary] = useState<LibraryState>(libraryStore.getState());
   const [showLibraryModal, setShowLibraryModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [playlists, setPlaylists] = useState<Playlist[]>(playlistService.getPlaylists());
+  const [exportSource, setExportSource] = useState("queue");
+  const [exportFormat, setExportFormat] = useState<PlaylistFormat>("m3u");
+  const [playback, setPlayback] = useState<PlaybackSettings>(playbackSettings.get());
   const colorScheme = useColorScheme();
 
+  const permissionStatus = library.permission;
+
   useEffect(() => {
-    checkPermissions();
-    loadLibraryStats();
+    const unsubscribeLibrary = libraryStore.subscribe(setLibrary);
+    const unsubscribe = playlistService.subscribe(setPlaylists);
+    const unsubscribePlayback = playbackSettings.subscribe(setPlayback);
+    libraryStore.load();
+    playlistService.load();
+    playbackSettings.load();
+    return () => {
+      unsubscribeLibrary();
+      unsubscribe();
+      unsubscribePlayback();
+    };
   }, []);
 
-  const checkPermissions = async () => {
-    const permission = await MediaLibrary.getPermissionsAsync();
-    setPermissionStatus(permission);
-  };
-
-  const loadLibraryStats = async () => {
-    try {
-      const permission = await MediaLibrary.getPermissionsAsync();
-      if (permission.granted) {
-        const media = await MediaLibrary.getAssetsAsync({
-          mediaType: MediaLibrary.MediaType.audio,
-          first: 1000,
-        });
-
-        // Simple folder count estimation (this is a simplified version)
-        const folderSet = new Set();
-        for (const asset of media.assets) {
-          folderSet.add("Unknown Album"); // Simplified for now
-        }
-
-        setLibraryStats({
-          trackCount: media.totalCount,
-          folderCount: folderSet.size,
-        });
-      }
-    } catch (error) {
-      console.error("Error loading library stats:", error);
-    }
-  };
-
-  const requestPermissions = async () => {
-    const permission = await MediaLibrary.requestPermissionsAsync();
-    setPermissionStatus(permission);
-    if (permission.granted) {
-      loadLibraryStats();
-    }
-  };
-
   const selectMusicFiles = async () => {
     try {
       setIsLoading(true);
@@ -70,11 +74,18 @@ export default function SettingsScreen() {
       });
 
       if (!result.canceled && result.assets) {
-        Alert.alert(
-          "Files Selected",
-          `${result.assets.length} audio files selected. Go to Music Player tab to see them.`,
-          [{ text: "OK" }]
+        const { imported, duplicates, failed } = await libraryStore.importFiles(
+          result.assets.map((asset) => ({ uri: asset.uri, name: asset.name }))
         );
+
+        const lines = [`${imported.length} files added to your library.`];
+        if (duplicates.length > 0) {
+          lines.push(`Already imported: ${duplicates.join(", ")}`);
+        }
+        if (failed.length > 0) {
+          lines.push(`Could not import: ${failed.join(", ")}`);
+        }
+        Alert.alert("Files Imported", lines.join("\n\n"));
       }
     } catch (error) {
       console.error("Error selecting files:", error);
@@ -84,11 +95,94 @@ export default function SettingsScreen() {
     }
   };
 
+  // Waits for a running scan so playlist entries are matched against the whole library
+  const loadLibraryTracks = async (): Promise<Track[]> => (await libraryStore.whenScanned()).tracks;
+
+  const importPlaylist = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: "*/*",
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets) {
+        return;
+      }
+
+      setIsLoading(true);
+      const file = result.assets[0];
+      if (!/\.(m3u8?|pls)$/i.test(file.name)) {
+        Alert.alert("Unsupported File", "Choose an M3U, M3U8 or PLS playlist file.");
+        return;
+      }
+
+      const library = await loadLibraryTracks();
+      const { playlist, matchedCount, unmatched } = await importPlaylistFile(file.uri, file.name, library);
+
+      const shown = unmatched.slice(0, MAX_UNMATCHED_SHOWN).map((entry) => `• ${entry.title || entry.path}`);
+      if (unmatched.length > MAX_UNMATCHED_SHOWN) {
+        shown.push(`…and ${unmatched.length - MAX_UNMATCHED_SHOWN} more`);
+      }
+
+      Alert.alert(
+        "Playlist Imported",
+        `"${playlist.name}" was created with ${matchedCount} tracks.` +
+          (unmatched.length > 0 ? `\n\n${unmatched.length} entries could not be found:\n${shown.join("\n")}` : "")
+      );
+    } catch (error) {
+      console.error("Error importing playlist:", error);
+      Alert.alert("Error", "Failed to import playlist");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const exportPlaylist = async () => {
+    setShowExportModal(false);
+    setIsLoading(true);
+    try {
+      let name = "Queue";
+      let tracks = audioService.getState().queue;
+
+      if (exportSource !== "queue") {
+        const playlist = playlists.find((p) => p.id === exportSource);
+        if (!playlist) {
+          return;
+        }
+        name = playlist.name;
+        tracks = resolvePlaylist(playlist, await loadLibraryTracks()).tracks;
+      }
+
+      if (tracks.length === 0) {
+        Alert.alert("Nothing to Export", "The selected queue or playlist has no playable tracks.");
+        return;
+      }
+
+      const uri = await exportPlaylistFile(name, exportFormat, tracks);
+      if (uri) {
+        Alert.alert("Playlist Exported", `${tracks.length} tracks written to ${decodeURIComponent(uri)}`);
+      }
+    } catch (error) {
+      console.error("Error exporting playlist:", error);
+      Alert.alert("Error", "Failed to export playlist");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const refreshLibrary = async () => {
     setIsLoading(true);
     try {
-      await loadLibraryStats();
-      Alert.alert("Library Refreshed", "Your music library has been refreshed.");
+      await libraryStore.refresh();
+      const { scanStatus, changes } = libraryStore.getState();
+      if (scanStatus === "done") {
+        Alert.alert(
+          "Library Refreshed",
+          `${changes.added} added, ${changes.updated} updated and ${changes.removed} removed since the last scan.`
+        );
+      } else if (scanStatus === "error") {
+        Alert.alert("Error", "Failed to refresh library");
+      }
     } catch (error) {
       Alert.alert("Error", "Failed to refresh library");
     } finally {
@@ -97,18 +191,50 @@ export default function SettingsScreen() {
   };
 
   const clearLibrary = () => {
-    Alert.alert("Clear Library", "This will clear all manually added files. Device music will remain accessible.", [
-      { text: "Cancel", style: "cancel" },
-      {
-        text: "Clear",
-        style: "destructive",
-        onPress: () => {
-          Alert.alert("Library Cleared", "Manually added files have been cleared.");
+    Alert.alert(
+      "Clear Library",
+      "This will clear all manually added files. Exported clips and device music will remain accessible.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await libraryStore.clearImported();
+              Alert.alert("Library Cleared", "Manually added files have been cleared.");
+            } catch (error) {
+              console.error("Error clearing added files:", error);
+              Alert.alert("Error", "Failed to clear added files");
+            }
+          },
         },
-      },
-    ]);
+      ]
+    );
   };
 
+  const isDark = colorScheme === "dark";
+  const accentColor = isDark ? "#BB86FC" : "#6200EE";
+
+  const renderFadeSlider = (label: string, setting: keyof PlaybackSettings, max: number) => (
+    <View style={styles.fadeSetting}>
+      <View style={styles.fadeLabel}>
+        <Text variant="bodyLarge">{label}</Text>
+        <Text variant="bodyMedium">{formatSeconds(playback[setting])}</Text>
+      </View>
+      <Slider
+        value={playback[setting]}
+        minimumValue={0}
+        maximumValue={max}
+        step={FADE_STEP}
+        onValueChange={(value) => setPlayback({ ...playback, [setting]: value })}
+        onSlidingComplete={(value) => playbackSettings.update({ [setting]: value })}
+        minimumTrackTintColor={accentColor}
+        thumbTintColor={accentColor}
+      />
+    </View>
+  );
+
   return (
     <ScrollView style={styles.container}>
       <Title style={styles.title}>Music Player Settings</Title>
@@ -130,7 +256,7 @@ export default function SettingsScreen() {
             left={(props) => <List.Icon {...props} icon="folder-music" />}
             right={() =>
               !permissionStatus?.granted ? (
-                <Button mode="contained" onPress={requestPermissions}>
+                <Button mode="contained" onPress={() => libraryStore.requestPermission()}>
                   Grant Access
                 </Button>
               ) : null
@@ -149,7 +275,12 @@ export default function SettingsScreen() {
 
           <List.Item
             title="Refresh Library"
-            description="Scan for new music on your device"
+            description={
+              library.error ??
+              (library.scanStatus === "scanning"
+                ? `Scanning ${library.scannedCount} of ${library.totalCount}`
+                : "Scan for new music on your device")
+            }
             left={(props) => <List.Icon {...props} icon="refresh" />}
             onPress={refreshLibrary}
             disabled={isLoading || !permissionStatus?.granted}
@@ -157,13 +288,52 @@ export default function SettingsScreen() {
 
           <List.Item
             title="Clear Added Files"
-            description="Remove manually added music files"
+            description={`Remove ${library.importedCount} manually added music files`}
             left={(props) => <List.Icon {...props} icon="delete" />}
             onPress={clearLibrary}
+            disabled={library.importedCount === 0}
+          />
+        </Card.Content>
+      </Card>
+
+      {/* Playlists */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text variant="headlineSmall" style={styles.sectionTitle}>
+            Playlists
+          </Text>
+
+          <List.Item
+            title="Import Playlist"
+            description="Load an M3U, M3U8 or PLS file"
+            left={(props) => <List.Icon {...props} icon="playlist-plus" />}
+            onPress={importPlaylist}
+            disabled={isLoading}
+          />
+
+          <List.Item
+            title="Export Playlist"
+            description="Save the queue or a playlist as M3U or PLS"
+            left={(props) => <List.Icon {...props} icon="export" />}
+            onPress={() => setShowExportModal(true)}
+            disabled={isLoading}
           />
         </Card.Content>
       </Card>
 
+      {/* Playback */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text variant="headlineSmall" style={styles.sectionTitle}>
+            Playback
+          </Text>
+
+          {renderFadeSlider("Fade In on Play", "fadeIn", MAX_FADE)}
+          {renderFadeSlider("Fade Out on Pause/Stop", "fadeOut", MAX_FADE)}
+          {renderFadeSlider("Crossfade Between Tracks", "crossfade", MAX_CROSSFADE)}
+        </Card.Content>
+      </Card>
+
       {/* Library Statistics */}
       <Card style={styles.card}>
         <Card.Content>
@@ -173,11 +343,11 @@ export default function SettingsScreen() {
 
           <View style={styles.statsContainer}>
             <View style={styles.statItem}>
-              <Text variant="headlineMedium">{libraryStats.trackCount}</Text>
+              <Text variant="headlineMedium">{library.tracks.length}</Text>
               <Text variant="bodyMedium">Total Tracks</Text>
             </View>
             <View style={styles.statItem}>
-              <Text variant="headlineMedium">{libraryStats.folderCount}</Text>
+              <Text variant="headlineMedium">{library.folderCount}</Text>
               <Text variant="bodyMedium">Folders/Albums</Text>
             </View>
           </View>
@@ -235,8 +405,8 @@ export default function SettingsScreen() {
           </Text>
 
           <Text variant="bodyLarge" style={styles.modalText}>
-            Your music library contains {libraryStats.trackCount} tracks organized into {libraryStats.folderCount}{" "}
-            folders.
+            Your music library contains {library.tracks.length} tracks organized into {library.folderCount} folders
+            {library.importedCount > 0 ? `, including ${library.importedCount} manually added files` : ""}.
           </Text>
 
           <Text variant="bodyMedium" style={styles.modalText}>
@@ -247,6 +417,44 @@ export default function SettingsScreen() {
             Close
           </Button>
         </Modal>
+
+        {/* Playlist Export Modal */}
+        <Modal
+          visible={showExportModal}
+          onDismiss={() => setShowExportModal(false)}
+          contentContainerStyle={styles.modal}
+        >
+          <Text variant="headlineSmall" style={styles.modalTitle}>
+            Export Playlist
+          </Text>
+
+          <ScrollView style={styles.exportSources}>
+            <RadioButton.Group onValueChange={setExportSource} value={exportSource}>
+              <RadioButton.Item label={`Current queue (${audioService.getState().queue.length})`} value="queue" />
+              {playlists.map((playlist) => (
+                <RadioButton.Item
+                  key={playlist.id}
+                  label={`${playlist.name} (${playlist.trackIds.length})`}
+                  value={playlist.id}
+                />
+              ))}
+            </RadioButton.Group>
+          </ScrollView>
+
+          <SegmentedButtons
+            value={exportFormat}
+            onValueChange={(value) => setExportFormat(value as PlaylistFormat)}
+            buttons={[
+              { value: "m3u", label: "M3U" },
+              { value: "pls", label: "PLS" },
+            ]}
+            style={styles.formatButtons}
+          />
+
+          <Button mode="contained" onPress={exportPlaylist} style={styles.modalButton}>
+            Export
+          </Button>
+        </Modal>
       </Portal>
     </ScrollView>
   );
@@ -270,6 +478,14 @@ const styles = StyleSheet.create({
   divider: {
     marginVertical: 8,
   },
+  fadeSetting: {
+    marginBottom: 8,
+  },
+  fadeLabel: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingHorizontal: 8,
+  },
   statsContainer: {
     flexDirection: "row",
     justifyContent: "space-around",
@@ -302,4 +518,10 @@ const styles = StyleSheet.create({
   modalButton: {
     marginTop: 16,
   },
+  exportSources: {
+    maxHeight: 240,
+  },
+  formatButtons: {
+    marginTop: 16,
+  },
 });
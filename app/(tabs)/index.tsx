@@ -1,14 +1,23 @@
 import MediaPlayer from "@/components/MediaPlayer";
 import MusicLibrary from "@/components/MusicLibrary";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { audioService } from "@/services/AppAudio";
 import { Track } from "@/services/AudioService";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { SafeAreaView, StatusBar, StyleSheet, View } from "react-native";
 
 export default function HomeScreen() {
-  const [selectedTrack, setSelectedTrack] = useState<Track | undefined>();
+  const [selectedTrack, setSelectedTrack] = useState<Track | undefined>(
+    audioService.getState().currentTrack ?? undefined
+  );
   const colorScheme = useColorScheme();
 
+  // The queue can advance on its own, so follow the service rather than the last tap
+  useEffect(() => {
+    const unsubscribe = audioService.subscribe((state) => setSelectedTrack(state.currentTrack ?? undefined));
+    return unsubscribe;
+  }, []);
+
   const handleTrackSelect = (track: Track) => {
     setSelectedTrack(track);
   };
@@ -27,7 +36,7 @@ export default function HomeScreen() {
 
         {/* Media Player - sticky at bottom */}
         <View style={styles.playerContainer}>
-          <MediaPlayer track={selectedTrack} />
+          <MediaPlayer />
         </View>
       </SafeAreaView>
     </View>
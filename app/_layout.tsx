@@ -2,10 +2,14 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from "@react-navigation/native
 import { useFonts } from "expo-font";
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
+import { useEffect } from "react";
 import { MD3DarkTheme, MD3LightTheme, PaperProvider } from "react-native-paper";
 import "react-native-reanimated";
 
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { audioService } from "@/services/AppAudio";
+import { libraryStore } from "@/services/LibraryStore";
+import { mediaSession } from "@/services/MediaSession";
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -13,6 +17,12 @@ export default function RootLayout() {
     SpaceMono: require("../assets/fonts/SpaceMono-Regular.ttf"),
   });
 
+  useEffect(() => {
+    mediaSession.start();
+    // The saved queue refers to tracks by id, so it is restored once the library index has loaded
+    libraryStore.load().then(() => audioService.restoreSession(libraryStore.getState().tracks));
+  }, []);
+
   if (!loaded) {
     // Async font loading only occurs in development.
     return null;
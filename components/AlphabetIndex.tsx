@@ -0,0 +1,91 @@
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { ALPHABET } from "@/services/TrackSort";
+import React, { useRef, useState } from "react";
+import { GestureResponderEvent, StyleSheet, View } from "react-native";
+import { Text } from "react-native-paper";
+
+interface AlphabetIndexProps {
+  // Letters that have a section; the others are shown dimmed but still jump to the nearest one
+  available: string[];
+  onSelect: (letter: string) => void;
+}
+
+export default function AlphabetIndex({ available, onSelect }: AlphabetIndexProps) {
+  const [height, setHeight] = useState(0);
+  const [activeLetter, setActiveLetter] = useState<string | null>(null);
+  const lastLetter = useRef<string | null>(null);
+  const colorScheme = useColorScheme();
+
+  const isDark = colorScheme === "dark";
+
+  // Tapping or dragging along the strip picks the letter under the finger
+  const selectAt = (event: GestureResponderEvent) => {
+    if (height === 0) {
+      return;
+    }
+    const index = Math.floor((event.nativeEvent.locationY / height) * ALPHABET.length);
+    const letter = ALPHABET[Math.min(ALPHABET.length - 1, Math.max(0, index))];
+    if (letter !== lastLetter.current) {
+      lastLetter.current = letter;
+      setActiveLetter(letter);
+      onSelect(letter);
+    }
+  };
+
+  const release = () => {
+    lastLetter.current = null;
+    setActiveLetter(null);
+  };
+
+  return (
+    <View
+      style={styles.container}
+      onLayout={(event) => setHeight(event.nativeEvent.layout.height)}
+      onStartShouldSetResponder={() => true}
+      onMoveShouldSetResponder={() => true}
+      onResponderGrant={selectAt}
+      onResponderMove={selectAt}
+      onResponderRelease={release}
+      onResponderTerminate={release}
+    >
+      {ALPHABET.map((letter) => (
+        <Text
+          key={letter}
+          variant="labelSmall"
+          pointerEvents="none"
+          style={[
+            styles.letter,
+            { color: isDark ? "#BB86FC" : "#6200EE" },
+            !available.includes(letter) && styles.unavailable,
+            letter === activeLetter && styles.active,
+          ]}
+        >
+          {letter}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    right: 0,
+    top: 0,
+    bottom: 0,
+    width: 20,
+    justifyContent: "space-evenly",
+    alignItems: "center",
+  },
+  letter: {
+    fontSize: 10,
+    lineHeight: 12,
+  },
+  unavailable: {
+    opacity: 0.3,
+  },
+  active: {
+    fontWeight: "bold",
+    transform: [{ scale: 1.4 }],
+  },
+});
@@ -0,0 +1,62 @@
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { artworkService } from "@/services/ArtworkService";
+import { Track } from "@/services/AudioService";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import React, { useEffect, useState } from "react";
+import { StyleProp, StyleSheet, View, ViewStyle } from "react-native";
+
+interface ArtworkProps {
+  track: Track;
+  size: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+export default function Artwork({ track, size, style }: ArtworkProps) {
+  const [uri, setUri] = useState<string | null>(artworkService.getCachedUri(track.id) ?? null);
+  const colorScheme = useColorScheme();
+
+  useEffect(() => {
+    let isCurrent = true;
+    setUri(artworkService.getCachedUri(track.id) ?? null);
+    artworkService.getArtworkUri(track).then((resolved) => {
+      if (isCurrent) {
+        setUri(resolved);
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [track]);
+
+  const isDark = colorScheme === "dark";
+  const frame = { width: size, height: size, borderRadius: Math.max(4, size / 16) };
+
+  if (!uri) {
+    return (
+      <View style={[styles.placeholder, frame, { backgroundColor: isDark ? "#333333" : "#E0E0E0" }, style]}>
+        <MaterialCommunityIcons name="music-note" size={size * 0.5} color={isDark ? "#FFFFFF80" : "#00000060"} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.clip, frame, style]}>
+      <Image source={{ uri }} style={styles.image} contentFit="cover" transition={150} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  placeholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  clip: {
+    overflow: "hidden",
+  },
+  image: {
+    width: "100%",
+    height: "100%",
+  },
+});
@@ -0,0 +1,313 @@
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { audioService } from "@/services/AppAudio";
+import { AudioState, Track } from "@/services/AudioService";
+import { fileSource } from "@/services/FileBytes";
+import { libraryStore } from "@/services/LibraryStore";
+import { readWavInfo, WavInfo } from "@/services/WavFile";
+import Slider from "@react-native-community/slider";
+import React, { useEffect, useState } from "react";
+import { Alert, GestureResponderEvent, StyleSheet, View } from "react-native";
+import { ActivityIndicator, Button, IconButton, Modal, Portal, Text } from "react-native-paper";
+
+interface ClipEditorProps {
+  track: Track | null;
+  onDismiss: () => void;
+  onExported: (clip: Track) => void;
+}
+
+// How far the nudge buttons move a start or end point
+const NUDGE_STEP = 100;
+
+const formatTime = (milliseconds: number): string => {
+  const minutes = Math.floor(milliseconds / 60000);
+  const seconds = Math.floor((milliseconds % 60000) / 1000);
+  const tenths = Math.floor((milliseconds % 1000) / 100);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}.${tenths}`;
+};
+
+export default function ClipEditor({ track, onDismiss, onExported }: ClipEditorProps) {
+  const [info, setInfo] = useState<WavInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(0);
+  const [cursor, setCursor] = useState(0);
+  const [timelineWidth, setTimelineWidth] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+  const [audioState, setAudioState] = useState<AudioState>(audioService.getState());
+  const colorScheme = useColorScheme();
+
+  useEffect(() => {
+    const unsubscribe = audioService.subscribe(setAudioState);
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    setInfo(null);
+    setLoadError(null);
+    if (!track) {
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const wav = await readWavInfo(await fileSource(track.uri));
+        if (!cancelled) {
+          setInfo(wav);
+          setStart(0);
+          setEnd(wav.duration);
+          setCursor(0);
+        }
+      } catch (error) {
+        console.error("Error reading WAV file:", error);
+        if (!cancelled) {
+          setLoadError("Only uncompressed PCM WAV files can be trimmed.");
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [track]);
+
+  const isPreviewing = !!track && audioState.currentTrack?.id === track.id && audioState.isPlaying;
+
+  useEffect(() => {
+    if (isPreviewing) {
+      setCursor(audioState.position);
+    }
+  }, [isPreviewing, audioState.position]);
+
+  if (!track) {
+    return null;
+  }
+
+  const isDark = colorScheme === "dark";
+  const accentColor = isDark ? "#BB86FC" : "#6200EE";
+  const duration = info?.duration ?? 0;
+
+  const clamp = (position: number) => Math.min(duration, Math.max(0, position));
+
+  const moveCursor = (position: number) => {
+    const clamped = clamp(position);
+    setCursor(clamped);
+    if (audioState.currentTrack?.id === track.id) {
+      audioService.seek(clamped);
+    }
+  };
+
+  const handleTimelinePress = (event: GestureResponderEvent) => {
+    if (timelineWidth > 0) {
+      moveCursor((event.nativeEvent.locationX / timelineWidth) * duration);
+    }
+  };
+
+  const updateStart = (position: number) => setStart(Math.min(clamp(position), end));
+  const updateEnd = (position: number) => setEnd(Math.max(clamp(position), start));
+
+  const handleDismiss = () => {
+    if (isPreviewing) {
+      audioService.pause();
+    }
+    onDismiss();
+  };
+
+  const exportClip = async () => {
+    try {
+      setIsExporting(true);
+      if (isPreviewing) {
+        await audioService.pause();
+      }
+      const clip = await libraryStore.exportClip(track, start, end);
+      onExported(clip);
+      Alert.alert("Clip Saved", `"${clip.title}" was added to the Clips folder.`);
+    } catch (error) {
+      console.error("Error exporting clip:", error);
+      Alert.alert("Error", "Failed to export the clip.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const toTimeline = (position: number) => (duration > 0 ? (position / duration) * timelineWidth : 0);
+
+  const renderPoint = (label: string, value: number, update: (position: number) => void) => (
+    <View style={styles.point}>
+      <Text variant="labelMedium" style={styles.pointLabel}>
+        {label}
+      </Text>
+      <IconButton icon="minus" size={16} onPress={() => update(value - NUDGE_STEP)} />
+      <Text variant="bodyMedium" style={styles.pointTime}>
+        {formatTime(value)}
+      </Text>
+      <IconButton icon="plus" size={16} onPress={() => update(value + NUDGE_STEP)} />
+    </View>
+  );
+
+  return (
+    <Portal>
+      <Modal visible onDismiss={handleDismiss} contentContainerStyle={styles.modal}>
+        <Text variant="headlineSmall" style={styles.modalTitle}>
+          Trim Clip
+        </Text>
+        <Text variant="bodySmall" style={styles.fileName} numberOfLines={1}>
+          {track.fileName}
+        </Text>
+
+        {loadError ? (
+          <Text variant="bodyMedium" style={styles.unsupportedText}>
+            {loadError}
+          </Text>
+        ) : !info ? (
+          <ActivityIndicator style={styles.loading} />
+        ) : (
+          <>
+            <View
+              style={styles.timeline}
+              onLayout={(event) => setTimelineWidth(event.nativeEvent.layout.width)}
+              onStartShouldSetResponder={() => true}
+              onResponderGrant={handleTimelinePress}
+              onResponderMove={handleTimelinePress}
+            >
+              <View
+                style={[
+                  styles.selection,
+                  {
+                    left: toTimeline(start),
+                    width: toTimeline(end) - toTimeline(start),
+                    backgroundColor: accentColor + "40",
+                    borderColor: accentColor,
+                  },
+                ]}
+              />
+              <View style={[styles.playhead, { left: toTimeline(cursor), backgroundColor: accentColor }]} />
+            </View>
+            <Slider
+              value={cursor}
+              onSlidingComplete={moveCursor}
+              minimumValue={0}
+              maximumValue={duration}
+              minimumTrackTintColor={accentColor}
+              thumbTintColor={accentColor}
+            />
+            <View style={styles.timeRow}>
+              <Text variant="bodySmall">{formatTime(cursor)}</Text>
+              <Text variant="bodySmall">
+                {info.sampleRate} Hz · {info.channels === 1 ? "mono" : `${info.channels} ch`} · {info.bitsPerSample}-bit
+              </Text>
+              <Text variant="bodySmall">{formatTime(duration)}</Text>
+            </View>
+
+            <View style={styles.markButtons}>
+              <Button compact mode="outlined" icon="ray-start" onPress={() => updateStart(cursor)}>
+                Set Start
+              </Button>
+              <Button compact mode="outlined" icon="ray-end" onPress={() => updateEnd(cursor)}>
+                Set End
+              </Button>
+            </View>
+            {renderPoint("Start", start, updateStart)}
+            {renderPoint("End", end, updateEnd)}
+            <Text variant="bodyMedium" style={styles.length}>
+              Clip length {formatTime(end - start)}
+            </Text>
+          </>
+        )}
+
+        {isExporting ? (
+          <ActivityIndicator style={styles.actions} />
+        ) : (
+          <View style={styles.actions}>
+            <Button onPress={handleDismiss}>Close</Button>
+            <Button
+              mode="outlined"
+              icon={isPreviewing ? "stop" : "play"}
+              disabled={!info}
+              onPress={() => (isPreviewing ? audioService.pause() : audioService.playRange(track, start, end))}
+            >
+              {isPreviewing ? "Stop" : "Preview"}
+            </Button>
+            <Button mode="contained" onPress={exportClip} disabled={!info || end - start < NUDGE_STEP}>
+              Export
+            </Button>
+          </View>
+        )}
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: "white",
+    padding: 20,
+    margin: 20,
+    borderRadius: 10,
+    maxHeight: "90%",
+  },
+  modalTitle: {
+    textAlign: "center",
+  },
+  fileName: {
+    textAlign: "center",
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  unsupportedText: {
+    textAlign: "center",
+    marginVertical: 20,
+  },
+  loading: {
+    marginVertical: 20,
+  },
+  timeline: {
+    height: 48,
+    borderRadius: 4,
+    backgroundColor: "rgba(0, 0, 0, 0.06)",
+    overflow: "hidden",
+  },
+  selection: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    borderLeftWidth: 2,
+    borderRightWidth: 2,
+  },
+  playhead: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: 2,
+  },
+  timeRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  markButtons: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 8,
+    marginVertical: 12,
+  },
+  point: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  pointLabel: {
+    minWidth: 40,
+  },
+  pointTime: {
+    minWidth: 64,
+    textAlign: "center",
+  },
+  length: {
+    textAlign: "center",
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,40 @@
+import { Highlight } from "@/services/SearchEngine";
+import React from "react";
+import { StyleSheet } from "react-native";
+import { Text } from "react-native-paper";
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: Highlight[];
+}
+
+// Renders text with the given ranges emphasised; meant to be nested inside another Text
+export default function HighlightedText({ text, highlights }: HighlightedTextProps) {
+  if (highlights.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end]) => {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <Text key={start} style={styles.match}>
+        {text.slice(start, end)}
+      </Text>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+const styles = StyleSheet.create({
+  match: {
+    fontWeight: "bold",
+    textDecorationLine: "underline",
+  },
+});
@@ -0,0 +1,189 @@
+import { audioService } from "@/services/AppAudio";
+import { Track } from "@/services/AudioService";
+import { CueListFormat, exportCueList, formatTimestamp, TrackMarker, trackMarkers } from "@/services/TrackMarkers";
+import React, { useState } from "react";
+import { Alert, FlatList, StyleSheet, View } from "react-native";
+import { Button, IconButton, List, Modal, Portal, Text, TextInput } from "react-native-paper";
+
+interface MarkersModalProps {
+  visible: boolean;
+  track: Track;
+  markers: TrackMarker[];
+  position: number;
+  onDismiss: () => void;
+}
+
+export default function MarkersModal({ visible, track, markers, position, onDismiss }: MarkersModalProps) {
+  const [label, setLabel] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setLabel("");
+    setEditingId(null);
+  };
+
+  const handleDismiss = () => {
+    resetForm();
+    onDismiss();
+  };
+
+  const handleSubmit = async () => {
+    if (editingId) {
+      await trackMarkers.update(track.id, editingId, { label });
+    } else {
+      await trackMarkers.add(track.id, position, label);
+    }
+    resetForm();
+  };
+
+  const confirmDelete = (marker: TrackMarker) => {
+    Alert.alert("Delete Marker", `Delete "${marker.label}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          if (editingId === marker.id) {
+            resetForm();
+          }
+          trackMarkers.remove(track.id, marker.id);
+        },
+      },
+    ]);
+  };
+
+  const handleExport = async (format: CueListFormat) => {
+    try {
+      const uri = await exportCueList(format, track);
+      if (uri) {
+        Alert.alert("Markers Exported", `${markers.length} markers written to ${decodeURIComponent(uri)}`);
+      }
+    } catch (error) {
+      console.error("Error exporting markers:", error);
+      Alert.alert("Error", "Failed to export markers");
+    }
+  };
+
+  const renderMarker = ({ item }: { item: TrackMarker }) => (
+    <List.Item
+      title={item.label}
+      description={formatTimestamp(item.position)}
+      left={(props) => <List.Icon {...props} icon="map-marker" />}
+      right={() => (
+        <View style={styles.actions}>
+          <IconButton
+            icon="pencil"
+            size={18}
+            onPress={() => {
+              setEditingId(item.id);
+              setLabel(item.label);
+            }}
+          />
+          {/* Moves the marker to where playback is now */}
+          <IconButton
+            icon="crosshairs-gps"
+            size={18}
+            onPress={() => trackMarkers.update(track.id, item.id, { position: Math.round(position) })}
+          />
+          <IconButton icon="delete" size={18} onPress={() => confirmDelete(item)} />
+        </View>
+      )}
+      onPress={() => audioService.seek(item.position)}
+      style={editingId === item.id ? styles.editing : undefined}
+    />
+  );
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={handleDismiss} contentContainerStyle={styles.modal}>
+        <Text variant="headlineSmall" style={styles.modalTitle}>
+          Markers
+        </Text>
+
+        <View style={styles.form}>
+          <TextInput
+            mode="outlined"
+            dense
+            placeholder={editingId ? "Rename marker" : "Label (optional)"}
+            value={label}
+            onChangeText={setLabel}
+            onSubmitEditing={handleSubmit}
+            style={styles.input}
+          />
+          <Button mode="contained" onPress={handleSubmit} disabled={editingId !== null && !label.trim()}>
+            {editingId ? "Rename" : `Add at ${formatTimestamp(position).slice(0, 8)}`}
+          </Button>
+        </View>
+
+        {markers.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No markers on this track yet
+          </Text>
+        ) : (
+          <FlatList
+            data={markers}
+            keyExtractor={(item) => item.id}
+            renderItem={renderMarker}
+            style={styles.markerList}
+          />
+        )}
+
+        <View style={styles.exportRow}>
+          <Button mode="outlined" icon="export" onPress={() => handleExport("txt")} disabled={markers.length === 0}>
+            Text
+          </Button>
+          <Button mode="outlined" icon="export" onPress={() => handleExport("csv")} disabled={markers.length === 0}>
+            CSV
+          </Button>
+          <Button mode="contained" onPress={handleDismiss}>
+            Done
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: "white",
+    padding: 20,
+    margin: 20,
+    borderRadius: 10,
+    maxHeight: "80%",
+  },
+  modalTitle: {
+    marginBottom: 20,
+    textAlign: "center",
+  },
+  form: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  input: {
+    flex: 1,
+    marginRight: 10,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  editing: {
+    backgroundColor: "rgba(98, 0, 238, 0.1)",
+  },
+  markerList: {
+    flexGrow: 0,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginVertical: 10,
+    opacity: 0.7,
+  },
+  exportRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 16,
+  },
+});
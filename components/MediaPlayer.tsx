@@ -1,29 +1,70 @@
+import Artwork from "@/components/Artwork";
+import MarkersModal from "@/components/MarkersModal";
+import PlaybackSpeedModal from "@/components/PlaybackSpeedModal";
+import SleepTimerModal from "@/components/SleepTimerModal";
+import WaveformSeekBar from "@/components/WaveformSeekBar";
 import { useColorScheme } from "@/hooks/useColorScheme";
-import { audioService, AudioState, Track } from "@/services/AudioService";
-import { Ionicons } from "@expo/vector-icons";
+import { audioService } from "@/services/AppAudio";
+import { AudioState, formatSleepTimer, isLoopActive } from "@/services/AudioService";
+import { PRE_ROLL_OPTIONS } from "@/services/LoopRegions";
+import { formatRate } from "@/services/PlaybackRates";
+import { TrackMarker, trackMarkers } from "@/services/TrackMarkers";
+import { WaveformPeaks, waveformService } from "@/services/WaveformService";
+import { Ionicons, MaterialCommunityIcons } from "@expo/vector-icons";
 import Slider from "@react-native-community/slider";
 import React, { useEffect, useState } from "react";
-import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { DimensionValue, StyleSheet, TouchableOpacity, View } from "react-native";
 import { Text } from "react-native-paper";
 
-interface MediaPlayerProps {
-  track?: Track;
-}
-
-export default function MediaPlayer({ track }: MediaPlayerProps) {
+export default function MediaPlayer() {
   const [audioState, setAudioState] = useState<AudioState>(audioService.getState());
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [showSpeedModal, setShowSpeedModal] = useState(false);
+  const [showSleepModal, setShowSleepModal] = useState(false);
+  const [showMarkersModal, setShowMarkersModal] = useState(false);
+  const [markers, setMarkers] = useState<Record<string, TrackMarker[]>>(trackMarkers.getMarkers());
+  const [now, setNow] = useState(Date.now());
   const colorScheme = useColorScheme();
 
   useEffect(() => {
     const unsubscribe = audioService.subscribe(setAudioState);
-    return unsubscribe;
+    const unsubscribeMarkers = trackMarkers.subscribe(setMarkers);
+    trackMarkers.load();
+    return () => {
+      unsubscribe();
+      unsubscribeMarkers();
+    };
   }, []);
 
+  const currentTrack = audioState.currentTrack;
+  const { sleepTimer } = audioState;
+
+  // Keeps the sleep timer countdown moving, even while paused
+  useEffect(() => {
+    if (sleepTimer?.mode !== "time") {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sleepTimer?.mode]);
+
   useEffect(() => {
-    if (track && track.id !== audioState.currentTrack?.id) {
-      audioService.loadTrack(track);
+    if (!currentTrack) {
+      setPeaks(null);
+      return;
     }
-  }, [track]);
+    let isCurrent = true;
+    setPeaks(waveformService.getCachedPeaks(currentTrack.id) ?? null);
+    waveformService.getPeaks(currentTrack).then((resolved) => {
+      if (isCurrent) {
+        setPeaks(resolved);
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [currentTrack]);
 
   const handlePlayPause = () => {
     if (audioState.isPlaying) {
@@ -48,9 +89,28 @@ export default function MediaPlayer({ track }: MediaPlayerProps) {
     return `${minutes}:${seconds.toString().padStart(2, "0")}`;
   };
 
+  const repeatIcon = audioState.repeatMode === "one" ? "repeat-once" : "repeat";
+  const hasPrevious = audioState.currentIndex > 0 || audioState.repeatMode === "all";
+  const hasNext = audioState.currentIndex < audioState.queue.length - 1 || audioState.repeatMode === "all";
+
+  const { loop } = audioState;
+  const currentMarkers = (currentTrack && markers[currentTrack.id]) || [];
+  const loopActive = isLoopActive(loop);
+  const toPercent = (position: number): DimensionValue =>
+    audioState.duration > 0 ? `${Math.min(100, (position / audioState.duration) * 100)}%` : "0%";
+
+  const cyclePreRoll = () => {
+    if (loop) {
+      const index = PRE_ROLL_OPTIONS.indexOf(loop.preRoll);
+      audioService.setLoopPreRoll(PRE_ROLL_OPTIONS[(index + 1) % PRE_ROLL_OPTIONS.length]);
+    }
+  };
+
   const seekPercentage = audioState.duration > 0 ? (audioState.position / audioState.duration) * 100 : 0;
 
   const isDark = colorScheme === "dark";
+  const accentColor = isDark ? "#BB86FC" : "#6200EE";
+  const errorColor = isDark ? "#CF6679" : "#B00020";
   const textColor = isDark ? "#FFFFFF" : "#000000";
   const backgroundColor = isDark ? "#1A1A1A" : "#F5F5F5";
   const cardColor = isDark ? "#2A2A2A" : "#FFFFFF";
@@ -65,6 +125,9 @@ export default function MediaPlayer({ track }: MediaPlayerProps) {
 
   return (
     <View style={[styles.container, { backgroundColor: cardColor }]}>
+      {/* Artwork */}
+      <Artwork track={audioState.currentTrack} size={120} style={styles.artwork} />
+
       {/* Track Info */}
       <View style={styles.trackInfo}>
         <Text style={[styles.trackTitle, { color: textColor }]} numberOfLines={1}>
@@ -73,34 +136,150 @@ export default function MediaPlayer({ track }: MediaPlayerProps) {
         <Text style={[styles.trackArtist, { color: textColor + "80" }]} numberOfLines={1}>
           {audioState.currentTrack.artist || "Unknown Artist"}
         </Text>
+        {audioState.queue.length > 1 && (
+          <Text style={[styles.queueText, { color: textColor + "80" }]}>
+            {audioState.currentIndex + 1} of {audioState.queue.length}
+          </Text>
+        )}
+        {audioState.phase === "error" && (
+          <Text style={[styles.errorText, { color: errorColor }]}>{audioState.error}</Text>
+        )}
       </View>
 
+      {audioState.resumePoint !== null && (
+        <View style={[styles.resumeRow, { borderColor: accentColor }]}>
+          <Text style={[styles.resumeText, styles.resumePrompt, { color: textColor }]}>
+            Resume from {formatTime(audioState.resumePoint)}?
+          </Text>
+          <TouchableOpacity style={styles.resumeButton} onPress={() => audioService.dismissResumePoint()}>
+            <Text style={[styles.resumeText, { color: textColor + "80" }]}>Start Over</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.resumeButton} onPress={() => audioService.resumeFromPoint()}>
+            <Text style={[styles.resumeText, styles.resumeAction, { color: accentColor }]}>Resume</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Progress Bar */}
       <View style={styles.progressContainer}>
         <Text style={[styles.timeText, { color: textColor }]}>{formatTime(audioState.position)}</Text>
         <View style={styles.sliderContainer}>
-          <Slider
-            style={styles.progressSlider}
-            value={seekPercentage}
-            onValueChange={handleSeek}
-            minimumValue={0}
-            maximumValue={100}
-            minimumTrackTintColor={isDark ? "#BB86FC" : "#6200EE"}
-            maximumTrackTintColor={textColor + "30"}
-            thumbTintColor={isDark ? "#BB86FC" : "#6200EE"}
-          />
+          {loop && (
+            <View
+              pointerEvents="none"
+              style={[
+                styles.loopRegion,
+                {
+                  left: toPercent(loop.start),
+                  width: loop.end !== null ? toPercent(loop.end - loop.start) : 2,
+                  backgroundColor: accentColor + "30",
+                  borderColor: accentColor,
+                },
+              ]}
+            />
+          )}
+          {currentMarkers.map((marker) => (
+            <View
+              key={marker.id}
+              pointerEvents="none"
+              style={[styles.markerTick, { left: toPercent(marker.position), backgroundColor: textColor + "80" }]}
+            />
+          ))}
+          {peaks ? (
+            <WaveformSeekBar
+              style={styles.progressSlider}
+              peaks={peaks}
+              position={audioState.position}
+              duration={audioState.duration}
+              onSeek={(position) => audioService.seek(position)}
+              playedColor={accentColor}
+              unplayedColor={textColor + "30"}
+            />
+          ) : (
+            <Slider
+              style={styles.progressSlider}
+              value={seekPercentage}
+              onValueChange={handleSeek}
+              minimumValue={0}
+              maximumValue={100}
+              minimumTrackTintColor={accentColor}
+              maximumTrackTintColor={textColor + "30"}
+              thumbTintColor={accentColor}
+            />
+          )}
         </View>
         <Text style={[styles.timeText, { color: textColor }]}>{formatTime(audioState.duration)}</Text>
       </View>
 
+      {/* A–B Loop */}
+      <View style={styles.loopRow}>
+        <TouchableOpacity
+          style={[styles.loopButton, { borderColor: loop ? accentColor : textColor + "60" }]}
+          onPress={() => audioService.setLoopPoint("start")}
+        >
+          <Text style={[styles.loopText, { color: loop ? accentColor : textColor }]}>
+            {loop ? `A ${formatTime(loop.start)}` : "Set A"}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.loopButton, { borderColor: loopActive ? accentColor : textColor + "60" }]}
+          onPress={() => audioService.setLoopPoint("end")}
+        >
+          <Text style={[styles.loopText, { color: loopActive ? accentColor : textColor }]}>
+            {loop && loop.end !== null ? `B ${formatTime(loop.end)}` : "Set B"}
+          </Text>
+        </TouchableOpacity>
+        {loop && (
+          <>
+            <TouchableOpacity style={[styles.loopButton, { borderColor: textColor + "60" }]} onPress={cyclePreRoll}>
+              <Text style={[styles.loopText, { color: textColor }]}>
+                {loop.preRoll > 0 ? `Pre-roll ${loop.preRoll / 1000}s` : "No pre-roll"}
+              </Text>
+            </TouchableOpacity>
+            {loopActive && <Text style={[styles.loopText, { color: textColor }]}>×{audioState.loopCount}</Text>}
+            <TouchableOpacity
+              style={styles.loopIcon}
+              onPress={() => audioService.saveLoop(!audioState.loopSaved)}
+              disabled={!loopActive}
+            >
+              <MaterialCommunityIcons
+                name={audioState.loopSaved ? "bookmark" : "bookmark-outline"}
+                size={20}
+                color={audioState.loopSaved ? accentColor : textColor + (loopActive ? "" : "60")}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.loopIcon} onPress={() => audioService.clearLoop()}>
+              <Ionicons name="close" size={20} color={textColor} />
+            </TouchableOpacity>
+          </>
+        )}
+        <TouchableOpacity
+          style={[styles.loopButton, styles.markersButton, { borderColor: textColor + "60" }]}
+          onPress={() => setShowMarkersModal(true)}
+        >
+          <MaterialCommunityIcons name="map-marker-plus" size={14} color={textColor} />
+          {currentMarkers.length > 0 && (
+            <Text style={[styles.loopText, styles.markersCount, { color: textColor }]}>{currentMarkers.length}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
       {/* Controls */}
       <View style={styles.controls}>
         <TouchableOpacity style={styles.controlButton} onPress={() => audioService.stop()}>
           <Ionicons name="stop" size={24} color={textColor} />
         </TouchableOpacity>
 
+        <TouchableOpacity style={styles.controlButton} onPress={() => audioService.toggleShuffle()}>
+          <Ionicons name="shuffle" size={24} color={audioState.isShuffled ? accentColor : textColor + "60"} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.controlButton} onPress={() => audioService.previous()}>
+          <Ionicons name="play-skip-back" size={24} color={hasPrevious ? textColor : textColor + "60"} />
+        </TouchableOpacity>
+
         <TouchableOpacity
-          style={[styles.playButton, { backgroundColor: isDark ? "#BB86FC" : "#6200EE" }]}
+          style={[styles.playButton, { backgroundColor: accentColor }]}
           onPress={handlePlayPause}
           disabled={audioState.isLoading}
         >
@@ -111,13 +290,40 @@ export default function MediaPlayer({ track }: MediaPlayerProps) {
           )}
         </TouchableOpacity>
 
-        <TouchableOpacity style={styles.controlButton}>
-          <Ionicons name="shuffle" size={24} color={textColor + "60"} />
+        <TouchableOpacity style={styles.controlButton} onPress={() => audioService.next()} disabled={!hasNext}>
+          <Ionicons name="play-skip-forward" size={24} color={hasNext ? textColor : textColor + "60"} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.controlButton} onPress={() => audioService.cycleRepeatMode()}>
+          <MaterialCommunityIcons
+            name={repeatIcon}
+            size={24}
+            color={audioState.repeatMode !== "off" ? accentColor : textColor + "60"}
+          />
         </TouchableOpacity>
       </View>
 
       {/* Volume Control */}
       <View style={styles.volumeContainer}>
+        <TouchableOpacity
+          style={[styles.speedButton, { borderColor: audioState.rate !== 1 ? accentColor : textColor + "60" }]}
+          onPress={() => setShowSpeedModal(true)}
+        >
+          <Text style={[styles.speedText, { color: audioState.rate !== 1 ? accentColor : textColor }]}>
+            {formatRate(audioState.rate)}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.speedButton, styles.sleepButton, { borderColor: sleepTimer ? accentColor : textColor + "60" }]}
+          onPress={() => setShowSleepModal(true)}
+        >
+          <MaterialCommunityIcons name="sleep" size={14} color={sleepTimer ? accentColor : textColor} />
+          {sleepTimer && (
+            <Text style={[styles.speedText, styles.sleepText, { color: accentColor }]}>
+              {formatSleepTimer(sleepTimer, now)}
+            </Text>
+          )}
+        </TouchableOpacity>
         <Ionicons name="volume-low" size={20} color={textColor} />
         <Slider
           style={styles.volumeSlider}
@@ -125,12 +331,27 @@ export default function MediaPlayer({ track }: MediaPlayerProps) {
           onValueChange={handleVolumeChange}
           minimumValue={0}
           maximumValue={100}
-          minimumTrackTintColor={isDark ? "#BB86FC" : "#6200EE"}
+          minimumTrackTintColor={accentColor}
           maximumTrackTintColor={textColor + "30"}
-          thumbTintColor={isDark ? "#BB86FC" : "#6200EE"}
+          thumbTintColor={accentColor}
         />
         <Ionicons name="volume-high" size={20} color={textColor} />
       </View>
+
+      <PlaybackSpeedModal visible={showSpeedModal} audioState={audioState} onDismiss={() => setShowSpeedModal(false)} />
+      <MarkersModal
+        visible={showMarkersModal}
+        track={audioState.currentTrack}
+        markers={currentMarkers}
+        position={audioState.position}
+        onDismiss={() => setShowMarkersModal(false)}
+      />
+      <SleepTimerModal
+        visible={showSleepModal}
+        sleepTimer={sleepTimer}
+        now={now}
+        onDismiss={() => setShowSleepModal(false)}
+      />
     </View>
   );
 }
@@ -146,6 +367,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontStyle: "italic",
   },
+  artwork: {
+    alignSelf: "center",
+    marginBottom: 12,
+  },
   trackInfo: {
     alignItems: "center",
     marginBottom: 20,
@@ -160,10 +385,82 @@ const styles = StyleSheet.create({
     textAlign: "center",
     marginTop: 4,
   },
+  queueText: {
+    fontSize: 12,
+    textAlign: "center",
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: 12,
+    textAlign: "center",
+    marginTop: 4,
+  },
   progressContainer: {
     flexDirection: "row",
     alignItems: "center",
-    marginBottom: 20,
+    marginBottom: 8,
+  },
+  resumeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 12,
+  },
+  resumeText: {
+    fontSize: 14,
+  },
+  resumePrompt: {
+    flex: 1,
+  },
+  resumeAction: {
+    fontWeight: "bold",
+  },
+  resumeButton: {
+    marginLeft: 16,
+  },
+  loopRegion: {
+    position: "absolute",
+    top: 4,
+    bottom: 4,
+    borderLeftWidth: 1,
+    borderRightWidth: 1,
+  },
+  loopRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  loopButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  markersButton: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  markersCount: {
+    marginLeft: 4,
+  },
+  markerTick: {
+    position: "absolute",
+    top: 8,
+    bottom: 8,
+    width: 2,
+    marginLeft: -1,
+  },
+  loopText: {
+    fontSize: 12,
+  },
+  loopIcon: {
+    padding: 2,
   },
   timeText: {
     fontSize: 12,
@@ -183,8 +480,8 @@ const styles = StyleSheet.create({
     marginBottom: 15,
   },
   controlButton: {
-    padding: 15,
-    marginHorizontal: 20,
+    padding: 10,
+    marginHorizontal: 2,
   },
   playButton: {
     width: 70,
@@ -192,13 +489,31 @@ const styles = StyleSheet.create({
     borderRadius: 35,
     alignItems: "center",
     justifyContent: "center",
-    marginHorizontal: 20,
+    marginHorizontal: 12,
   },
   volumeContainer: {
     flexDirection: "row",
     alignItems: "center",
     paddingHorizontal: 10,
   },
+  speedButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginRight: 12,
+  },
+  speedText: {
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+  sleepButton: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  sleepText: {
+    marginLeft: 4,
+  },
   volumeSlider: {
     flex: 1,
     height: 30,
@@ -1,124 +1,166 @@
+import AlphabetIndex from "@/components/AlphabetIndex";
+import Artwork from "@/components/Artwork";
+import ClipEditor from "@/components/ClipEditor";
+import HighlightedText from "@/components/HighlightedText";
+import PlaylistsModal from "@/components/PlaylistsModal";
+import TrackEditor from "@/components/TrackEditor";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { audioService } from "@/services/AppAudio";
 import { Track } from "@/services/AudioService";
-import * as MediaLibrary from "expo-media-library";
-import React, { useEffect, useState } from "react";
-import { Alert, FlatList, StyleSheet, View } from "react-native";
-import { ActivityIndicator, Button, Card, Chip, List, Modal, Portal, Searchbar, Text } from "react-native-paper";
+import { findFolder, FolderNode, folderBreadcrumbs, isInFolder } from "@/services/FolderTree";
+import { LibraryState, libraryStore } from "@/services/LibraryStore";
+import { TagSaveMode } from "@/services/LibraryService";
+import { playStats } from "@/services/PlayStats";
+import { Playlist, playlistService, resolvePlaylist } from "@/services/PlaylistService";
+import { ResumePosition, resumePositions } from "@/services/ResumePositions";
+import { SearchIndex, SearchResult } from "@/services/SearchEngine";
+import {
+  ALPHABET,
+  DEFAULT_SORT,
+  groupTracks,
+  isAlphabetical,
+  SORT_KEYS,
+  SortPreference,
+  sortPreferences,
+  sortTracks,
+  TrackSection,
+} from "@/services/TrackSort";
+import { isWavFileName } from "@/services/WavFile";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Alert, FlatList, SectionList, StyleSheet, View } from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  Chip,
+  IconButton,
+  List,
+  Menu,
+  Modal,
+  Portal,
+  ProgressBar,
+  Searchbar,
+  Text,
+} from "react-native-paper";
 
 interface MusicLibraryProps {
   onTrackSelect: (track: Track) => void;
   selectedTrackId?: string;
 }
 
-interface Folder {
-  id: string;
-  name: string;
-  trackCount: number;
-}
-
 export default function MusicLibrary({ onTrackSelect, selectedTrackId }: MusicLibraryProps) {
-  const [tracks, setTracks] = useState<Track[]>([]);
-  const [folders, setFolders] = useState<Folder[]>([]);
+  const [library, setLibrary] = useState<LibraryState>(libraryStore.getState());
   const [selectedFolder, setSelectedFolder] = useState<string | null>(null);
+  const [browsePath, setBrowsePath] = useState<string | null>(null);
   const [filteredTracks, setFilteredTracks] = useState<Track[]>([]);
+  const [searchHighlights, setSearchHighlights] = useState<Map<string, SearchResult["highlights"]>>(new Map());
   const [searchQuery, setSearchQuery] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
   const [showFolderModal, setShowFolderModal] = useState(false);
-  const [permissionStatus, setPermissionStatus] = useState<MediaLibrary.PermissionResponse | null>(null);
+  const [playlists, setPlaylists] = useState<Playlist[]>(playlistService.getPlaylists());
+  const [selectedPlaylistId, setSelectedPlaylistId] = useState<string | null>(null);
+  const [showPlaylistModal, setShowPlaylistModal] = useState(false);
+  const [trackToAdd, setTrackToAdd] = useState<Track | null>(null);
+  const [menuTrackId, setMenuTrackId] = useState<string | null>(null);
+  const [editingTrack, setEditingTrack] = useState<Track | null>(null);
+  const [clippingTrack, setClippingTrack] = useState<Track | null>(null);
+  const [playCounts, setPlayCounts] = useState<Record<string, number>>(playStats.getPlayCounts());
+  const [positions, setPositions] = useState<Record<string, ResumePosition>>(resumePositions.getPositions());
+  const [sortPreference, setSortPreference] = useState<SortPreference>(DEFAULT_SORT);
+  const [showSortMenu, setShowSortMenu] = useState(false);
+  const sectionListRef = useRef<SectionList<Track, TrackSection>>(null);
+  const pendingJump = useRef<number | null>(null);
   const colorScheme = useColorScheme();
 
   const isDark = colorScheme === "dark";
 
-  useEffect(() => {
-    checkPermissions();
-  }, []);
+  const { tracks, folderTree, permission: permissionStatus } = library;
+  const isScanning = library.scanStatus === "scanning";
 
-  useEffect(() => {
-    filterTracks();
-  }, [tracks, selectedFolder, searchQuery]);
+  // Only built while searching, so a running scan does not re-index on every batch of tracks
+  const isSearching = searchQuery.trim() !== "";
+  const searchIndex = useMemo(() => (isSearching ? new SearchIndex(tracks) : null), [tracks, isSearching]);
 
-  const checkPermissions = async () => {
-    const permission = await MediaLibrary.getPermissionsAsync();
-    setPermissionStatus(permission);
-    if (permission.granted) {
-      loadDeviceMusic();
-    }
-  };
+  const browsedFolder = (browsePath !== null && findFolder(folderTree, browsePath)) || folderTree;
+  const selectedFolderNode = selectedFolder !== null ? findFolder(folderTree, selectedFolder) : null;
 
-  const requestPermissions = async () => {
-    const permission = await MediaLibrary.requestPermissionsAsync();
-    setPermissionStatus(permission);
-    if (permission.granted) {
-      loadDeviceMusic();
-    }
-  };
-
-  const loadDeviceMusic = async () => {
-    try {
-      setIsLoading(true);
-      const media = await MediaLibrary.getAssetsAsync({
-        mediaType: MediaLibrary.MediaType.audio,
-        first: 1000, // Load first 1000 songs
-      });
+  const selectedPlaylist = playlists.find((playlist) => playlist.id === selectedPlaylistId);
+  const missingTrackCount = selectedPlaylist ? resolvePlaylist(selectedPlaylist, tracks).missingTrackIds.length : 0;
 
-      const newTracks: Track[] = await Promise.all(
-        media.assets.map(async (asset) => {
-          const assetInfo = await MediaLibrary.getAssetInfoAsync(asset);
-          return {
-            id: asset.id,
-            title: asset.filename.replace(/\.[^/.]+$/, ""),
-            artist: "Unknown Artist",
-            uri: assetInfo.localUri || assetInfo.uri,
-            fileName: asset.filename,
-            duration: asset.duration * 1000, // Convert to milliseconds
-            album: "Unknown Album",
-          };
-        })
-      );
-
-      setTracks(newTracks);
-      organizeFolders(newTracks);
-    } catch (error) {
-      console.error("Error loading device music:", error);
-      Alert.alert("Error", "Failed to load music from device");
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  // Sorting is remembered separately for the whole library, each folder and each playlist
+  const viewKey = selectedPlaylist
+    ? `playlist:${selectedPlaylist.id}`
+    : selectedFolder !== null
+      ? `folder:${selectedFolder}`
+      : "all";
+  const displayedTracks = useMemo(
+    () => sortTracks(filteredTracks, sortPreference, playCounts),
+    [filteredTracks, sortPreference, playCounts]
+  );
+  const sections = useMemo(
+    () =>
+      sortPreference.grouped && sortPreference.key !== "default"
+        ? groupTracks(displayedTracks, sortPreference.key, playCounts)
+        : null,
+    [displayedTracks, sortPreference, playCounts]
+  );
 
-  const organizeFolders = (trackList: Track[]) => {
-    const folderMap = new Map<string, number>();
+  useEffect(() => {
+    const unsubscribeLibrary = libraryStore.subscribe(setLibrary);
+    const unsubscribe = playlistService.subscribe(setPlaylists);
+    const unsubscribePlayStats = playStats.subscribe(setPlayCounts);
+    const unsubscribePositions = resumePositions.subscribe(setPositions);
+    // Indexed tracks show up first; the store outlives this screen, so a scan that already ran is kept
+    libraryStore.load();
+    playlistService.load();
+    playStats.load();
+    return () => {
+      unsubscribeLibrary();
+      unsubscribe();
+      unsubscribePlayStats();
+      unsubscribePositions();
+    };
+  }, []);
 
-    trackList.forEach((track) => {
-      const folder = track.album || "Unknown Album";
-      folderMap.set(folder, (folderMap.get(folder) || 0) + 1);
+  useEffect(() => {
+    let isCurrent = true;
+    sortPreferences.load().then(() => {
+      if (isCurrent) {
+        setSortPreference(sortPreferences.get(viewKey));
+      }
     });
+    return () => {
+      isCurrent = false;
+    };
+  }, [viewKey]);
 
-    const folderList: Folder[] = Array.from(folderMap.entries()).map(([name, count]) => ({
-      id: name,
-      name,
-      trackCount: count,
-    }));
-
-    setFolders(folderList);
-  };
+  useEffect(() => {
+    filterTracks();
+  }, [tracks, selectedFolder, selectedPlaylistId, playlists, searchQuery, searchIndex]);
 
   const filterTracks = () => {
     let filtered = tracks;
 
-    if (selectedFolder && selectedFolder !== "all") {
-      filtered = tracks.filter((track) => track.album === selectedFolder);
+    if (selectedPlaylist) {
+      filtered = resolvePlaylist(selectedPlaylist, tracks).tracks;
+    } else if (selectedFolder !== null) {
+      filtered = tracks.filter((track) => isInFolder(track, selectedFolder));
     }
 
-    if (searchQuery) {
-      filtered = filtered.filter(
-        (track) =>
-          track.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          track.artist?.toLowerCase().includes(searchQuery.toLowerCase())
-      );
+    const highlights = new Map<string, SearchResult["highlights"]>();
+    if (searchIndex) {
+      // Results come back ranked, so the folder or playlist only decides which of them are shown
+      const inView = new Set(filtered.map((track) => track.id));
+      filtered = [];
+      searchIndex.search(searchQuery).forEach((result) => {
+        if (inView.has(result.track.id)) {
+          filtered.push(result.track);
+          highlights.set(result.track.id, result.highlights);
+        }
+      });
     }
 
     setFilteredTracks(filtered);
+    setSearchHighlights(highlights);
   };
 
   const clearLibrary = () => {
@@ -128,41 +170,188 @@ export default function MusicLibrary({ onTrackSelect, selectedTrackId }: MusicLi
         text: "Clear",
         style: "destructive",
         onPress: () => {
-          setTracks([]);
-          setFolders([]);
+          libraryStore.clearScanned();
           setSelectedFolder(null);
+          setBrowsePath(null);
         },
       },
     ]);
   };
 
+  const handleTrackPress = (track: Track) => {
+    audioService.playQueue(displayedTracks, displayedTracks.indexOf(track));
+    onTrackSelect(track);
+  };
+
+  const updateSort = (changes: Partial<SortPreference>) => {
+    const next = { ...sortPreference, ...changes };
+    setSortPreference(next);
+    sortPreferences.set(viewKey, next);
+  };
+
+  // Jumps to the letter's section, or the nearest one after it in the current sort direction
+  const jumpToLetter = (letter: string) => {
+    if (!sections) {
+      return;
+    }
+    const target = ALPHABET.indexOf(letter);
+    const isAscending = sortPreference.order === "asc";
+    let sectionIndex = sections.findIndex((section) =>
+      isAscending ? ALPHABET.indexOf(section.title) >= target : ALPHABET.indexOf(section.title) <= target
+    );
+    if (sectionIndex === -1) {
+      sectionIndex = sections.length - 1;
+    }
+    pendingJump.current = sectionIndex;
+    sectionListRef.current?.scrollToLocation({ sectionIndex, itemIndex: 0, viewOffset: 0, animated: false });
+  };
+
+  // Sections far down are not measured yet: scroll to an estimate, then retry once they have rendered
+  const handleJumpFailed = (info: { index: number; averageItemLength: number }) => {
+    sectionListRef.current?.getScrollResponder()?.scrollTo({ y: info.averageItemLength * info.index, animated: false });
+    setTimeout(() => {
+      const sectionIndex = pendingJump.current;
+      pendingJump.current = null;
+      if (sectionIndex !== null) {
+        sectionListRef.current?.scrollToLocation({ sectionIndex, itemIndex: 0, viewOffset: 0, animated: false });
+      }
+    }, 50);
+  };
+
+  const handleTagsSaved = (saved: Track, mode: TagSaveMode) => {
+    setEditingTrack(null);
+    libraryStore.saveEditedTrack(saved, mode);
+    if (mode === "replace") {
+      audioService.updateTrack(saved);
+    }
+  };
+
+  const renderTrackMenu = (track: Track) => (
+    <Menu
+      visible={menuTrackId === track.id}
+      onDismiss={() => setMenuTrackId(null)}
+      anchor={<IconButton icon="dots-vertical" size={18} onPress={() => setMenuTrackId(track.id)} />}
+    >
+      <Menu.Item
+        leadingIcon="playlist-plus"
+        title="Add to Playlist"
+        onPress={() => {
+          setMenuTrackId(null);
+          setTrackToAdd(track);
+          setShowPlaylistModal(true);
+        }}
+      />
+      <Menu.Item
+        leadingIcon="tag-edit"
+        title="Edit Tags"
+        onPress={() => {
+          setMenuTrackId(null);
+          setEditingTrack(track);
+        }}
+      />
+      {isWavFileName(track.fileName) && (
+        <Menu.Item
+          leadingIcon="content-cut"
+          title="Trim Clip"
+          onPress={() => {
+            setMenuTrackId(null);
+            setClippingTrack(track);
+          }}
+        />
+      )}
+    </Menu>
+  );
+
+  const renderPlaylistActions = (track: Track) => {
+    if (!selectedPlaylist) {
+      return null;
+    }
+
+    return (
+      <View style={styles.trackActions}>
+        <IconButton
+          icon="arrow-up"
+          size={18}
+          onPress={() => playlistService.moveTrack(selectedPlaylist.id, track.id, -1)}
+        />
+        <IconButton
+          icon="arrow-down"
+          size={18}
+          onPress={() => playlistService.moveTrack(selectedPlaylist.id, track.id, 1)}
+        />
+        <IconButton icon="close" size={18} onPress={() => playlistService.removeTrack(selectedPlaylist.id, track.id)} />
+      </View>
+    );
+  };
+
   const renderTrack = ({ item }: { item: Track }) => {
     const isSelected = item.id === selectedTrackId;
+    const highlight = searchHighlights.get(item.id);
 
     return (
       <List.Item
-        title={item.title}
-        description={item.artist}
-        left={(props) => <List.Icon {...props} icon="music-note" />}
-        right={(props) => (isSelected ? <List.Icon {...props} icon="play" /> : null)}
-        onPress={() => onTrackSelect(item)}
+        title={<HighlightedText text={item.title} highlights={highlight?.title ?? []} />}
+        description={
+          <>
+            <HighlightedText text={item.artist || ""} highlights={highlight?.artist ?? []} />
+            {item.source === "imported" ? " · Manually added" : ""}
+            {positions[item.id]?.finished ? " · Finished" : ""}
+          </>
+        }
+        left={(props) => <Artwork track={item} size={40} style={[props.style, styles.thumbnail]} />}
+        right={(props) => (
+          <View style={styles.trackActions}>
+            {selectedPlaylist && sortPreference.key === "default" ? (
+              renderPlaylistActions(item)
+            ) : isSelected ? (
+              <List.Icon {...props} icon="play" />
+            ) : null}
+            {renderTrackMenu(item)}
+          </View>
+        )}
+        onPress={() => handleTrackPress(item)}
+        onLongPress={() => {
+          setTrackToAdd(item);
+          setShowPlaylistModal(true);
+        }}
         style={isSelected ? { backgroundColor: isDark ? "rgba(187, 134, 252, 0.2)" : "rgba(98, 0, 238, 0.1)" } : {}}
       />
     );
   };
 
-  const renderFolder = ({ item }: { item: Folder }) => (
+  const showFolder = (folder: FolderNode) => {
+    setSelectedFolder(folder.path);
+    setSelectedPlaylistId(null);
+    setShowFolderModal(false);
+  };
+
+  const renderFolder = ({ item }: { item: FolderNode }) => (
     <List.Item
       title={item.name}
-      description={`${item.trackCount} tracks`}
-      left={(props) => <List.Icon {...props} icon="folder-music" />}
-      onPress={() => {
-        setSelectedFolder(item.id);
-        setShowFolderModal(false);
-      }}
+      description={
+        item.children.length > 0
+          ? `${item.totalTrackCount} tracks · ${item.children.length} subfolders`
+          : `${item.totalTrackCount} tracks`
+      }
+      left={(props) => <List.Icon {...props} icon={item.children.length > 0 ? "folder-multiple" : "folder-music"} />}
+      right={(props) => item.children.length > 0 && <List.Icon {...props} icon="chevron-right" />}
+      onPress={() => (item.children.length > 0 ? setBrowsePath(item.path) : showFolder(item))}
     />
   );
 
+  const renderBreadcrumbs = () => (
+    <View style={styles.breadcrumbs}>
+      {folderBreadcrumbs(folderTree, browsedFolder.path).map((folder, index, trail) => (
+        <View key={folder.path} style={styles.breadcrumb}>
+          {index > 0 && <Text variant="bodyMedium">›</Text>}
+          <Button compact disabled={index === trail.length - 1} onPress={() => setBrowsePath(folder.path)}>
+            {folder.name}
+          </Button>
+        </View>
+      ))}
+    </View>
+  );
+
   if (!permissionStatus) {
     return (
       <View style={styles.centered}>
@@ -171,7 +360,7 @@ export default function MusicLibrary({ onTrackSelect, selectedTrackId }: MusicLi
     );
   }
 
-  if (!permissionStatus.granted) {
+  if (!permissionStatus.granted && library.importedCount === 0) {
     return (
       <View style={styles.centered}>
         <Text variant="headlineSmall" style={styles.permissionTitle}>
@@ -180,7 +369,7 @@ export default function MusicLibrary({ onTrackSelect, selectedTrackId }: MusicLi
         <Text variant="bodyLarge" style={styles.permissionText}>
           Allow access to your music library to browse and play songs by folders
         </Text>
-        <Button mode="contained" onPress={requestPermissions} style={styles.permissionButton}>
+        <Button mode="contained" onPress={() => libraryStore.requestPermission()} style={styles.permissionButton}>
           Grant Permission
         </Button>
         <Text variant="bodyMedium" style={styles.settingsText}>
@@ -193,31 +382,140 @@ export default function MusicLibrary({ onTrackSelect, selectedTrackId }: MusicLi
   return (
     <View style={styles.container}>
       <Searchbar
-        placeholder="Search music..."
+        placeholder="Search, e.g. artist:queen year:1970..1979 -live"
         onChangeText={setSearchQuery}
         value={searchQuery}
         style={styles.searchbar}
       />
 
       <View style={styles.filterRow}>
-        <Chip selected={selectedFolder === "all" || !selectedFolder} onPress={() => setSelectedFolder("all")}>
+        <Chip
+          selected={!selectedPlaylist && selectedFolder === null}
+          onPress={() => {
+            setSelectedFolder(null);
+            setSelectedPlaylistId(null);
+          }}
+        >
           All ({tracks.length})
         </Chip>
-        <Button mode="outlined" icon="folder-open" onPress={() => setShowFolderModal(true)}>
+        <Button
+          mode="outlined"
+          icon="playlist-music"
+          onPress={() => {
+            setTrackToAdd(null);
+            setShowPlaylistModal(true);
+          }}
+        >
+          Playlists
+        </Button>
+        <Button
+          mode="outlined"
+          icon="folder-open"
+          onPress={() => {
+            setBrowsePath(selectedFolder);
+            setShowFolderModal(true);
+          }}
+        >
           Browse Folders
         </Button>
       </View>
 
-      {selectedFolder && selectedFolder !== "all" && (
+      {selectedPlaylist && (
         <Card style={styles.folderCard}>
           <Card.Content>
-            <Text variant="titleMedium">{selectedFolder}</Text>
+            <Text variant="titleMedium">{selectedPlaylist.name}</Text>
             <Text variant="bodyMedium">{filteredTracks.length} tracks</Text>
+            {missingTrackCount > 0 && (
+              <View style={styles.missingRow}>
+                <Text variant="bodySmall" style={styles.missingText}>
+                  {missingTrackCount} tracks are no longer on this device
+                </Text>
+                <Button compact onPress={() => playlistService.removeMissing(selectedPlaylist.id, tracks)}>
+                  Remove
+                </Button>
+              </View>
+            )}
+          </Card.Content>
+        </Card>
+      )}
+
+      {!selectedPlaylist && selectedFolder !== null && (
+        <Card style={styles.folderCard}>
+          <Card.Content>
+            <Text variant="titleMedium">{selectedFolderNode?.name || selectedFolder}</Text>
+            <Text variant="bodySmall" style={styles.folderPath} numberOfLines={1}>
+              {selectedFolder}
+            </Text>
+            <Text variant="bodyMedium">{filteredTracks.length} tracks</Text>
+          </Card.Content>
+        </Card>
+      )}
+
+      {library.scanStatus !== "idle" && library.scanStatus !== "done" && (
+        <Card style={styles.folderCard}>
+          <Card.Content>
+            <View style={styles.scanRow}>
+              <Text variant="bodyMedium" style={styles.scanText}>
+                {isScanning
+                  ? `Scanning ${library.scannedCount} of ${library.totalCount}`
+                  : library.scanStatus === "cancelled"
+                    ? `Scan paused at ${library.scannedCount} of ${library.totalCount}`
+                    : `Scan stopped at ${library.scannedCount} of ${library.totalCount} after an error`}
+              </Text>
+              {isScanning ? (
+                <Button compact onPress={() => libraryStore.cancelScan()}>
+                  Cancel
+                </Button>
+              ) : (
+                <Button compact onPress={() => libraryStore.resumeScan()}>
+                  Resume
+                </Button>
+              )}
+            </View>
+            <ProgressBar progress={library.totalCount > 0 ? library.scannedCount / library.totalCount : 0} />
           </Card.Content>
         </Card>
       )}
 
-      {isLoading ? (
+      {filteredTracks.length > 0 && (
+        <View style={styles.sortRow}>
+          <Menu
+            visible={showSortMenu}
+            onDismiss={() => setShowSortMenu(false)}
+            anchor={
+              <Button compact icon="sort" onPress={() => setShowSortMenu(true)}>
+                {SORT_KEYS.find(({ key }) => key === sortPreference.key)?.label}
+              </Button>
+            }
+          >
+            {SORT_KEYS.map(({ key, label }) => (
+              <Menu.Item
+                key={key}
+                title={label}
+                leadingIcon={key === sortPreference.key ? "check" : undefined}
+                onPress={() => {
+                  setShowSortMenu(false);
+                  updateSort({ key });
+                }}
+              />
+            ))}
+          </Menu>
+          <IconButton
+            icon={sortPreference.order === "asc" ? "sort-ascending" : "sort-descending"}
+            size={20}
+            onPress={() => updateSort({ order: sortPreference.order === "asc" ? "desc" : "asc" })}
+          />
+          <IconButton
+            icon="format-list-group"
+            size={20}
+            selected={sortPreference.grouped}
+            disabled={sortPreference.key === "default"}
+            onPress={() => updateSort({ grouped: !sortPreference.grouped })}
+          />
+        </View>
+      )}
+
+      {isScanning && tracks.length === 0 ? (
         <View style={styles.centered}>
           <ActivityIndicator size="large" />
           <Text>Loading music...</Text>
@@ -226,12 +524,39 @@ export default function MusicLibrary({ onTrackSelect, selectedTrackId }: MusicLi
         <View style={styles.centered}>
           <Text variant="headlineSmall">No music found</Text>
           <Text variant="bodyLarge" style={styles.emptyText}>
-            {tracks.length === 0 ? "Your music library will appear here" : "No tracks match your search"}
+            {tracks.length === 0
+              ? "Your music library will appear here"
+              : selectedPlaylist && selectedPlaylist.trackIds.length === 0
+                ? "Long-press a track to add it to this playlist"
+                : "No tracks match your search"}
           </Text>
         </View>
+      ) : sections ? (
+        <View style={styles.trackList}>
+          <SectionList
+            ref={sectionListRef}
+            sections={sections}
+            keyExtractor={(item) => item.id}
+            renderItem={renderTrack}
+            renderSectionHeader={({ section }) => (
+              <Text
+                variant="labelLarge"
+                style={[styles.sectionHeader, { backgroundColor: isDark ? "#1E1E1E" : "#F2F2F2" }]}
+              >
+                {section.title}
+              </Text>
+            )}
+            stickySectionHeadersEnabled
+            onScrollToIndexFailed={handleJumpFailed}
+            style={isAlphabetical(sortPreference.key) ? styles.indexedList : undefined}
+          />
+          {isAlphabetical(sortPreference.key) && (
+            <AlphabetIndex available={sections.map((section) => section.title)} onSelect={jumpToLetter} />
+          )}
+        </View>
       ) : (
         <FlatList
-          data={filteredTracks}
+          data={displayedTracks}
           keyExtractor={(item) => item.id}
           renderItem={renderTrack}
           style={styles.trackList}
@@ -247,14 +572,41 @@ export default function MusicLibrary({ onTrackSelect, selectedTrackId }: MusicLi
           <Text variant="headlineSmall" style={styles.modalTitle}>
             Browse by Folder
           </Text>
+          {renderBreadcrumbs()}
+          {browsedFolder.children.length > 0 && (
+            <Button icon="playlist-play" onPress={() => showFolder(browsedFolder)} style={styles.showFolderButton}>
+              Show all {browsedFolder.totalTrackCount} tracks in {browsedFolder.name}
+            </Button>
+          )}
           <FlatList
-            data={folders}
-            keyExtractor={(item) => item.id}
+            data={browsedFolder.children.length > 0 ? browsedFolder.children : [browsedFolder]}
+            keyExtractor={(item) => item.path}
             renderItem={renderFolder}
             style={styles.folderList}
           />
         </Modal>
       </Portal>
+
+      <PlaylistsModal
+        visible={showPlaylistModal}
+        playlists={playlists}
+        trackToAdd={trackToAdd}
+        onDismiss={() => {
+          setShowPlaylistModal(false);
+          setTrackToAdd(null);
+        }}
+        onSelect={(playlist) => {
+          setSelectedPlaylistId(playlist.id);
+          setShowPlaylistModal(false);
+        }}
+      />
+
+      <TrackEditor track={editingTrack} onDismiss={() => setEditingTrack(null)} onSaved={handleTagsSaved} />
+      <ClipEditor
+        track={clippingTrack}
+        onDismiss={() => setClippingTrack(null)}
+        onExported={() => setClippingTrack(null)}
+      />
     </View>
   );
 }
@@ -282,9 +634,48 @@ const styles = StyleSheet.create({
   folderCard: {
     marginBottom: 10,
   },
+  scanRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  scanText: {
+    flex: 1,
+  },
+  missingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  missingText: {
+    flex: 1,
+    opacity: 0.7,
+  },
+  thumbnail: {
+    alignSelf: "center",
+  },
+  trackActions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   trackList: {
     flex: 1,
   },
+  sortRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "flex-end",
+  },
+  sectionHeader: {
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  // Leaves room for the A–Z index on the right
+  indexedList: {
+    marginRight: 20,
+  },
   fab: {
     position: "absolute",
     margin: 16,
@@ -305,6 +696,21 @@ const styles = StyleSheet.create({
   folderList: {
     flexGrow: 0,
   },
+  folderPath: {
+    opacity: 0.7,
+  },
+  breadcrumbs: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+  },
+  breadcrumb: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  showFolderButton: {
+    alignSelf: "flex-start",
+  },
   permissionTitle: {
     textAlign: "center",
     marginBottom: 10,
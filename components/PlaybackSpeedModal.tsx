@@ -0,0 +1,118 @@
+import { audioService } from "@/services/AppAudio";
+import { AudioState, MAX_RATE, MIN_RATE, RATE_STEP } from "@/services/AudioService";
+import { formatRate, RATE_PRESETS, RateScope } from "@/services/PlaybackRates";
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import { Button, Chip, IconButton, Modal, Portal, SegmentedButtons, Switch, Text } from "react-native-paper";
+
+interface PlaybackSpeedModalProps {
+  visible: boolean;
+  audioState: AudioState;
+  onDismiss: () => void;
+}
+
+export default function PlaybackSpeedModal({ visible, audioState, onDismiss }: PlaybackSpeedModalProps) {
+  const { rate, pitchCorrection, rateScope, currentTrack } = audioState;
+  const hasFolder = currentTrack?.folderPath !== undefined;
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={onDismiss} contentContainerStyle={styles.modal}>
+        <Text variant="headlineSmall" style={styles.modalTitle}>
+          Playback Speed
+        </Text>
+
+        <View style={styles.fineSteps}>
+          <IconButton icon="minus" onPress={() => audioService.setRate(rate - RATE_STEP)} disabled={rate <= MIN_RATE} />
+          <Text variant="displaySmall" style={styles.rate}>
+            {formatRate(rate)}
+          </Text>
+          <IconButton icon="plus" onPress={() => audioService.setRate(rate + RATE_STEP)} disabled={rate >= MAX_RATE} />
+        </View>
+
+        <View style={styles.presets}>
+          {RATE_PRESETS.map((preset) => (
+            <Chip
+              key={preset}
+              compact
+              selected={Math.abs(preset - rate) < RATE_STEP / 2}
+              onPress={() => audioService.setRate(preset)}
+            >
+              {formatRate(preset)}
+            </Chip>
+          ))}
+        </View>
+
+        <View style={styles.pitchRow}>
+          <View style={styles.pitchText}>
+            <Text variant="bodyLarge">Pitch Correction</Text>
+            <Text variant="bodySmall">Keep voices at their natural pitch when sped up or slowed down</Text>
+          </View>
+          <Switch value={pitchCorrection} onValueChange={(value) => audioService.setRate(rate, value)} />
+        </View>
+
+        <Text variant="labelLarge" style={styles.rememberLabel}>
+          Remember This Speed
+        </Text>
+        <SegmentedButtons
+          value={rateScope ?? "off"}
+          onValueChange={(value) => audioService.rememberRate(value === "off" ? null : (value as RateScope))}
+          buttons={[
+            { value: "off", label: "Off" },
+            { value: "track", label: "This Track", disabled: !currentTrack },
+            { value: "folder", label: "This Folder", disabled: !hasFolder },
+          ]}
+        />
+
+        <Button mode="contained" onPress={onDismiss} style={styles.closeButton}>
+          Done
+        </Button>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: "white",
+    padding: 20,
+    margin: 20,
+    borderRadius: 10,
+    maxHeight: "80%",
+  },
+  modalTitle: {
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  fineSteps: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  rate: {
+    minWidth: 120,
+    textAlign: "center",
+  },
+  presets: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 6,
+    marginVertical: 12,
+  },
+  pitchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  pitchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rememberLabel: {
+    marginBottom: 8,
+  },
+  closeButton: {
+    marginTop: 20,
+  },
+});
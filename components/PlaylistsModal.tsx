@@ -0,0 +1,171 @@
+import { Track } from "@/services/AudioService";
+import { Playlist, playlistService } from "@/services/PlaylistService";
+import React, { useState } from "react";
+import { Alert, FlatList, StyleSheet, View } from "react-native";
+import { Button, IconButton, List, Modal, Portal, Text, TextInput } from "react-native-paper";
+
+interface PlaylistsModalProps {
+  visible: boolean;
+  playlists: Playlist[];
+  onDismiss: () => void;
+  onSelect: (playlist: Playlist) => void;
+  // When set, tapping a playlist adds this track instead of opening the playlist
+  trackToAdd?: Track | null;
+}
+
+export default function PlaylistsModal({ visible, playlists, onDismiss, onSelect, trackToAdd }: PlaylistsModalProps) {
+  const [name, setName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setName("");
+    setEditingId(null);
+  };
+
+  const handleDismiss = () => {
+    resetForm();
+    onDismiss();
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      return;
+    }
+
+    if (editingId) {
+      await playlistService.rename(editingId, name);
+    } else {
+      await playlistService.create(name, trackToAdd ? [trackToAdd.id] : []);
+      if (trackToAdd) {
+        handleDismiss();
+        return;
+      }
+    }
+    resetForm();
+  };
+
+  const handlePress = async (playlist: Playlist) => {
+    if (trackToAdd) {
+      await playlistService.addTracks(playlist.id, [trackToAdd.id]);
+      handleDismiss();
+    } else {
+      resetForm();
+      onSelect(playlist);
+    }
+  };
+
+  const confirmDelete = (playlist: Playlist) => {
+    Alert.alert("Delete Playlist", `Delete "${playlist.name}"? The tracks stay in your library.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => playlistService.remove(playlist.id),
+      },
+    ]);
+  };
+
+  const renderPlaylist = ({ item, index }: { item: Playlist; index: number }) => (
+    <List.Item
+      title={item.name}
+      description={`${item.trackIds.length} tracks`}
+      left={(props) => <List.Icon {...props} icon="playlist-music" />}
+      right={() =>
+        trackToAdd ? null : (
+          <View style={styles.actions}>
+            <IconButton
+              icon="arrow-up"
+              size={18}
+              disabled={index === 0}
+              onPress={() => playlistService.movePlaylist(index, index - 1)}
+            />
+            <IconButton
+              icon="pencil"
+              size={18}
+              onPress={() => {
+                setEditingId(item.id);
+                setName(item.name);
+              }}
+            />
+            <IconButton icon="content-copy" size={18} onPress={() => playlistService.duplicate(item.id)} />
+            <IconButton icon="delete" size={18} onPress={() => confirmDelete(item)} />
+          </View>
+        )
+      }
+      onPress={() => handlePress(item)}
+    />
+  );
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={handleDismiss} contentContainerStyle={styles.modal}>
+        <Text variant="headlineSmall" style={styles.modalTitle}>
+          {trackToAdd ? `Add "${trackToAdd.title}" to...` : "Playlists"}
+        </Text>
+
+        <View style={styles.form}>
+          <TextInput
+            mode="outlined"
+            dense
+            placeholder={editingId ? "Rename playlist" : "New playlist name"}
+            value={name}
+            onChangeText={setName}
+            onSubmitEditing={handleSubmit}
+            style={styles.input}
+          />
+          <Button mode="contained" onPress={handleSubmit} disabled={!name.trim()}>
+            {editingId ? "Rename" : "Create"}
+          </Button>
+        </View>
+
+        {playlists.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No playlists yet
+          </Text>
+        ) : (
+          <FlatList
+            data={playlists}
+            keyExtractor={(item) => item.id}
+            renderItem={renderPlaylist}
+            style={styles.playlistList}
+          />
+        )}
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: "white",
+    padding: 20,
+    margin: 20,
+    borderRadius: 10,
+    maxHeight: "80%",
+  },
+  modalTitle: {
+    marginBottom: 20,
+    textAlign: "center",
+  },
+  form: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  input: {
+    flex: 1,
+    marginRight: 10,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  playlistList: {
+    flexGrow: 0,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginVertical: 10,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,129 @@
+import { audioService } from "@/services/AppAudio";
+import { formatSleepTimer, SLEEP_TIMER_PRESETS, SleepTimer } from "@/services/AudioService";
+import React, { useState } from "react";
+import { StyleSheet, View } from "react-native";
+import { Button, Chip, IconButton, Modal, Portal, Text } from "react-native-paper";
+
+interface SleepTimerModalProps {
+  visible: boolean;
+  sleepTimer: SleepTimer | null;
+  now: number;
+  onDismiss: () => void;
+}
+
+export default function SleepTimerModal({ visible, sleepTimer, now, onDismiss }: SleepTimerModalProps) {
+  const [trackCount, setTrackCount] = useState(2);
+
+  const start = (timer: { minutes: number } | { tracks: number }) => {
+    audioService.startSleepTimer(timer);
+    onDismiss();
+  };
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={onDismiss} contentContainerStyle={styles.modal}>
+        <Text variant="headlineSmall" style={styles.modalTitle}>
+          Sleep Timer
+        </Text>
+
+        {sleepTimer ? (
+          <>
+            <Text variant="displaySmall" style={styles.countdown}>
+              {formatSleepTimer(sleepTimer, now)}
+            </Text>
+            <Text variant="bodySmall" style={styles.hint}>
+              The volume fades down before playback stops
+            </Text>
+            <View style={styles.chips}>
+              {sleepTimer.mode === "time" ? (
+                <>
+                  <Chip compact icon="plus" onPress={() => audioService.extendSleepTimer(5)}>
+                    5 min
+                  </Chip>
+                  <Chip compact icon="plus" onPress={() => audioService.extendSleepTimer(15)}>
+                    15 min
+                  </Chip>
+                </>
+              ) : (
+                <Chip compact icon="plus" onPress={() => audioService.extendSleepTimer()}>
+                  1 track
+                </Chip>
+              )}
+            </View>
+            <Button mode="outlined" onPress={() => audioService.cancelSleepTimer()}>
+              Cancel Timer
+            </Button>
+          </>
+        ) : (
+          <>
+            <Text variant="labelLarge" style={styles.sectionLabel}>
+              Stop After
+            </Text>
+            <View style={styles.chips}>
+              {SLEEP_TIMER_PRESETS.map((minutes) => (
+                <Chip key={minutes} compact onPress={() => start({ minutes })}>
+                  {`${minutes} min`}
+                </Chip>
+              ))}
+              <Chip compact icon="music-note" onPress={() => start({ tracks: 1 })}>
+                End of track
+              </Chip>
+            </View>
+
+            <View style={styles.trackRow}>
+              <IconButton icon="minus" onPress={() => setTrackCount(trackCount - 1)} disabled={trackCount <= 2} />
+              <Text variant="bodyLarge">{`${trackCount} tracks`}</Text>
+              <IconButton icon="plus" onPress={() => setTrackCount(trackCount + 1)} />
+              <Button mode="outlined" compact onPress={() => start({ tracks: trackCount })}>
+                Start
+              </Button>
+            </View>
+          </>
+        )}
+
+        <Button mode="contained" onPress={onDismiss} style={styles.closeButton}>
+          Done
+        </Button>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: "white",
+    padding: 20,
+    margin: 20,
+    borderRadius: 10,
+    maxHeight: "80%",
+  },
+  modalTitle: {
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  countdown: {
+    textAlign: "center",
+  },
+  hint: {
+    textAlign: "center",
+    opacity: 0.7,
+  },
+  sectionLabel: {
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 6,
+    marginVertical: 12,
+  },
+  trackRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  closeButton: {
+    marginTop: 20,
+  },
+});
@@ -0,0 +1,210 @@
+import { Track } from "@/services/AudioService";
+import { canReplaceFile, saveTrackTags, TagSaveMode } from "@/services/LibraryService";
+import { canWriteTags, Id3Version, TagEdits } from "@/services/TagWriter";
+import React, { useEffect, useState } from "react";
+import { Alert, ScrollView, StyleSheet, View } from "react-native";
+import { ActivityIndicator, Button, Modal, Portal, SegmentedButtons, Text, TextInput } from "react-native-paper";
+
+interface TrackEditorProps {
+  track: Track | null;
+  onDismiss: () => void;
+  onSaved: (track: Track, mode: TagSaveMode) => void;
+}
+
+interface TagForm {
+  title: string;
+  artist: string;
+  album: string;
+  year: string;
+  genre: string;
+  trackNumber: string;
+}
+
+const toForm = (track: Track): TagForm => ({
+  title: track.title,
+  artist: track.artist === "Unknown Artist" ? "" : track.artist || "",
+  album: track.album === "Unknown Album" ? "" : track.album || "",
+  year: track.year ? String(track.year) : "",
+  genre: track.genre || "",
+  trackNumber: track.trackNumber ? String(track.trackNumber) : "",
+});
+
+const toNumber = (value: string) => {
+  const number = parseInt(value, 10);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+export default function TrackEditor({ track, onDismiss, onSaved }: TrackEditorProps) {
+  const [form, setForm] = useState<TagForm | null>(null);
+  const [id3Version, setId3Version] = useState<Id3Version>(3);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(track ? toForm(track) : null);
+  }, [track]);
+
+  if (!track || !form) {
+    return null;
+  }
+
+  const isMp3 = /\.mp3$/i.test(track.fileName);
+  const isSupported = canWriteTags(track.fileName);
+  const canReplace = isSupported && canReplaceFile(track);
+
+  const updateField = (field: keyof TagForm) => (value: string) => setForm({ ...form, [field]: value });
+
+  const save = async (mode: TagSaveMode) => {
+    // Only fields the user changed are written, so untouched tags keep their exact contents
+    const loaded = toForm(track);
+    const edits: TagEdits = {};
+    if (form.title !== loaded.title) edits.title = form.title;
+    if (form.artist !== loaded.artist) edits.artist = form.artist;
+    if (form.album !== loaded.album) edits.album = form.album;
+    if (form.year !== loaded.year) edits.year = toNumber(form.year);
+    if (form.genre !== loaded.genre) edits.genre = form.genre;
+    if (form.trackNumber !== loaded.trackNumber) {
+      // Written as "number/total", so the total goes along to keep it
+      edits.trackNumber = toNumber(form.trackNumber);
+      edits.trackTotal = track.trackTotal;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await saveTrackTags(track, edits, mode, id3Version);
+      onSaved(saved, mode);
+    } catch (error) {
+      console.error("Error saving tags:", error);
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to save tags.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmReplace = () => {
+    Alert.alert("Replace Original", `Overwrite "${track.fileName}" with the new tags?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Replace", style: "destructive", onPress: () => save("replace") },
+    ]);
+  };
+
+  return (
+    <Portal>
+      <Modal visible onDismiss={onDismiss} contentContainerStyle={styles.modal}>
+        <Text variant="headlineSmall" style={styles.modalTitle}>
+          Edit Tags
+        </Text>
+        <Text variant="bodySmall" style={styles.fileName} numberOfLines={1}>
+          {track.fileName}
+        </Text>
+
+        {!isSupported ? (
+          <Text variant="bodyMedium" style={styles.unsupportedText}>
+            Tags can only be written to MP3 and FLAC files.
+          </Text>
+        ) : (
+          <ScrollView style={styles.form}>
+            <TextInput mode="outlined" dense label="Title" value={form.title} onChangeText={updateField("title")} />
+            <TextInput mode="outlined" dense label="Artist" value={form.artist} onChangeText={updateField("artist")} />
+            <TextInput mode="outlined" dense label="Album" value={form.album} onChangeText={updateField("album")} />
+            <View style={styles.row}>
+              <TextInput
+                mode="outlined"
+                dense
+                label="Year"
+                keyboardType="number-pad"
+                value={form.year}
+                onChangeText={updateField("year")}
+                style={styles.rowInput}
+              />
+              <TextInput
+                mode="outlined"
+                dense
+                label="Track #"
+                keyboardType="number-pad"
+                value={form.trackNumber}
+                onChangeText={updateField("trackNumber")}
+                style={styles.rowInput}
+              />
+            </View>
+            <TextInput mode="outlined" dense label="Genre" value={form.genre} onChangeText={updateField("genre")} />
+
+            {isMp3 && (
+              <SegmentedButtons
+                value={String(id3Version)}
+                onValueChange={(value) => setId3Version(Number(value) as Id3Version)}
+                buttons={[
+                  { value: "3", label: "ID3v2.3" },
+                  { value: "4", label: "ID3v2.4" },
+                ]}
+                style={styles.versionButtons}
+              />
+            )}
+            {!canReplaceFile(track) && (
+              <Text variant="bodySmall" style={styles.copyOnlyText}>
+                Files in the device library cannot be overwritten, so the edits are saved as a copy.
+              </Text>
+            )}
+          </ScrollView>
+        )}
+
+        {isSaving ? (
+          <ActivityIndicator style={styles.actions} />
+        ) : (
+          <View style={styles.actions}>
+            <Button onPress={onDismiss}>Cancel</Button>
+            <Button mode="outlined" onPress={() => save("copy")} disabled={!isSupported}>
+              Save as Copy
+            </Button>
+            <Button mode="contained" onPress={confirmReplace} disabled={!canReplace}>
+              Replace
+            </Button>
+          </View>
+        )}
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: "white",
+    padding: 20,
+    margin: 20,
+    borderRadius: 10,
+    maxHeight: "90%",
+  },
+  modalTitle: {
+    textAlign: "center",
+  },
+  fileName: {
+    textAlign: "center",
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  unsupportedText: {
+    textAlign: "center",
+    marginVertical: 20,
+  },
+  form: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  versionButtons: {
+    marginTop: 16,
+  },
+  copyOnlyText: {
+    marginTop: 12,
+    opacity: 0.7,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,94 @@
+import { WaveformPeaks } from "@/services/WaveformService";
+import React, { useState } from "react";
+import { GestureResponderEvent, StyleProp, StyleSheet, View, ViewStyle } from "react-native";
+
+interface WaveformSeekBarProps {
+  peaks: WaveformPeaks;
+  position: number;
+  duration: number;
+  onSeek: (position: number) => void;
+  playedColor: string;
+  unplayedColor: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Bars never shrink below this, so silent passages still show where the track is
+const MIN_BAR_HEIGHT = 2;
+
+export default function WaveformSeekBar({
+  peaks,
+  position,
+  duration,
+  onSeek,
+  playedColor,
+  unplayedColor,
+  style,
+}: WaveformSeekBarProps) {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  // Where the finger is while dragging; the seek only happens on release
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+
+  const positionAt = (event: GestureResponderEvent) => {
+    const ratio = size.width > 0 ? event.nativeEvent.locationX / size.width : 0;
+    return Math.min(1, Math.max(0, ratio)) * duration;
+  };
+
+  const handleRelease = (event: GestureResponderEvent) => {
+    setDragPosition(null);
+    if (duration > 0) {
+      onSeek(positionAt(event));
+    }
+  };
+
+  const shownPosition = dragPosition ?? position;
+  const playedBuckets = duration > 0 ? (shownPosition / duration) * peaks.max.length : 0;
+  const middle = size.height / 2;
+
+  return (
+    <View
+      style={[styles.container, style]}
+      onLayout={(event) => setSize(event.nativeEvent.layout)}
+      onStartShouldSetResponder={() => true}
+      onMoveShouldSetResponder={() => true}
+      onResponderGrant={(event) => setDragPosition(positionAt(event))}
+      onResponderMove={(event) => setDragPosition(positionAt(event))}
+      onResponderRelease={handleRelease}
+      onResponderTerminate={() => setDragPosition(null)}
+    >
+      <View style={styles.bars} pointerEvents="none">
+        {peaks.max.map((max, index) => {
+          const top = middle - max * middle;
+          const height = Math.max(MIN_BAR_HEIGHT, (max - peaks.min[index]) * middle);
+          return (
+            <View
+              key={index}
+              style={[
+                styles.bar,
+                {
+                  marginTop: Math.min(top, middle - MIN_BAR_HEIGHT / 2),
+                  height,
+                  backgroundColor: index < playedBuckets ? playedColor : unplayedColor,
+                },
+              ]}
+            />
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 48,
+  },
+  bars: {
+    flex: 1,
+    flexDirection: "row",
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 0.5,
+    borderRadius: 1,
+  },
+});
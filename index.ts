@@ -0,0 +1,7 @@
+import "expo-router/entry";
+
+import { playbackService } from "@/services/MediaSession";
+import TrackPlayer from "react-native-track-player";
+
+// Remote control events are delivered to this service, also while the app is in the background
+TrackPlayer.registerPlaybackService(() => playbackService);
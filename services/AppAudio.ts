@@ -0,0 +1,31 @@
+import { AudioService } from "@/services/AudioService";
+import { expoAudioBackend } from "@/services/ExpoAudioBackend";
+import { expoAvBackend } from "@/services/ExpoAvBackend";
+import { loopRegions } from "@/services/LoopRegions";
+import { playbackRates } from "@/services/PlaybackRates";
+import { readSession, writeSession } from "@/services/PlaybackSession";
+import { playbackSettings } from "@/services/PlaybackSettings";
+import { playStats } from "@/services/PlayStats";
+import { resumePositions } from "@/services/ResumePositions";
+import { AppState } from "react-native";
+
+// expo-av unless the build sets EXPO_PUBLIC_AUDIO_BACKEND=expo-audio
+const backend = process.env.EXPO_PUBLIC_AUDIO_BACKEND === "expo-audio" ? expoAudioBackend : expoAvBackend;
+
+// The app's one player, wired to the device's audio engine and stores
+export const audioService = new AudioService({
+  backend,
+  playbackSettings,
+  playbackRates,
+  loopRegions,
+  resumePositions,
+  playStats,
+  readSession,
+  writeSession,
+  onBackground: (listener) =>
+    AppState.addEventListener("change", (appState) => {
+      if (appState !== "active") {
+        listener();
+      }
+    }),
+});
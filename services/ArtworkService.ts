@@ -0,0 +1,102 @@
+import { Track } from "@/services/AudioService";
+import { fileSource, writeFileBytes } from "@/services/FileBytes";
+import { readPicture } from "@/services/TagReader";
+import * as FileSystem from "expo-file-system";
+
+const ARTWORK_DIRECTORY = `${FileSystem.cacheDirectory}artwork/`;
+
+// Image files commonly dropped next to an album's tracks, in order of preference
+const FOLDER_ART_NAMES = ["cover.jpg", "folder.jpg", "Cover.jpg", "Folder.jpg", "cover.png", "folder.png"];
+
+const cacheKey = (trackId: string) => trackId.replace(/[^a-zA-Z0-9_-]/g, "_");
+
+class ArtworkService {
+  // null records "no artwork", so tracks without any are not parsed again
+  private resolved = new Map<string, string | null>();
+  private pending = new Map<string, Promise<string | null>>();
+  private directoryReady: Promise<void> | null = null;
+
+  private ensureDirectory() {
+    if (!this.directoryReady) {
+      this.directoryReady = FileSystem.makeDirectoryAsync(ARTWORK_DIRECTORY, { intermediates: true }).catch(
+        () => undefined
+      );
+    }
+    return this.directoryReady;
+  }
+
+  getCachedUri(trackId: string): string | null | undefined {
+    return this.resolved.get(trackId);
+  }
+
+  getArtworkUri(track: Track): Promise<string | null> {
+    if (this.resolved.has(track.id)) {
+      return Promise.resolve(this.resolved.get(track.id)!);
+    }
+
+    let request = this.pending.get(track.id);
+    if (!request) {
+      request = this.resolve(track)
+        .catch((error) => {
+          console.error(`Error loading artwork for ${track.fileName}:`, error);
+          return null;
+        })
+        .then((uri) => {
+          this.resolved.set(track.id, uri);
+          this.pending.delete(track.id);
+          return uri;
+        });
+      this.pending.set(track.id, request);
+    }
+    return request;
+  }
+
+  // Forgets the artwork found for a track whose file changed, so it is read again next time
+  async clear(trackId: string) {
+    this.resolved.delete(trackId);
+    const key = cacheKey(trackId);
+    await Promise.all(
+      ["jpg", "png"].map((extension) =>
+        FileSystem.deleteAsync(`${ARTWORK_DIRECTORY}${key}.${extension}`, { idempotent: true })
+      )
+    );
+  }
+
+  private async resolve(track: Track): Promise<string | null> {
+    await this.ensureDirectory();
+    const key = cacheKey(track.id);
+
+    for (const extension of ["jpg", "png"]) {
+      const uri = `${ARTWORK_DIRECTORY}${key}.${extension}`;
+      if ((await FileSystem.getInfoAsync(uri)).exists) {
+        return uri;
+      }
+    }
+
+    const picture = await readPicture(await fileSource(track.uri), track.fileName);
+    if (picture && picture.data.length > 0) {
+      const uri = `${ARTWORK_DIRECTORY}${key}.${picture.mimeType === "image/png" ? "png" : "jpg"}`;
+      await writeFileBytes(uri, picture.data);
+      return uri;
+    }
+
+    return this.findFolderArt(track);
+  }
+
+  private async findFolderArt(track: Track): Promise<string | null> {
+    if (!track.uri.startsWith("file://")) {
+      return null;
+    }
+
+    const directory = track.uri.slice(0, track.uri.lastIndexOf("/") + 1);
+    for (const name of FOLDER_ART_NAMES) {
+      const uri = `${directory}${name}`;
+      if ((await FileSystem.getInfoAsync(uri)).exists) {
+        return uri;
+      }
+    }
+    return null;
+  }
+}
+
+export const artworkService = new ArtworkService();
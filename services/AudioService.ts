@@ -1,4 +1,10 @@
-import { Audio, AVPlaybackSource } from "expo-av";
+import type { LoopRegion, loopRegions } from "@/services/LoopRegions";
+import { PlaybackBackend, PlaybackSound, PlaybackStatus } from "@/services/PlaybackBackend";
+import type { playbackRates, RateScope, RateSetting } from "@/services/PlaybackRates";
+import type { PlaybackSession } from "@/services/PlaybackSession";
+import type { playbackSettings } from "@/services/PlaybackSettings";
+import type { playStats } from "@/services/PlayStats";
+import type { resumePositions } from "@/services/ResumePositions";
 
 export interface Track {
   id: string;
@@ -7,48 +13,262 @@ export interface Track {
   duration?: number;
   uri: string;
   fileName: string;
+  folderPath?: string;
+  // When the file joined the library, in milliseconds since the epoch
+  dateAdded?: number;
   album?: string;
+  albumArtist?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+  discNumber?: number;
+  discTotal?: number;
+  year?: number;
+  genre?: string;
+  // Files copied in from Settings rather than found by the device scan
+  source?: "device" | "imported";
 }
 
+export type RepeatMode = "off" | "one" | "all";
+
+// Stops playback at a set time, or once a number of tracks (1 for "end of this track") have finished
+export type SleepTimer = { mode: "time"; endsAt: number } | { mode: "tracks"; tracksLeft: number };
+
+export const SLEEP_TIMER_PRESETS = [15, 30, 45, 60, 90];
+
+export const formatSleepTimer = (timer: SleepTimer, now: number) => {
+  if (timer.mode === "tracks") {
+    return timer.tracksLeft === 1 ? "End of track" : `${timer.tracksLeft} tracks`;
+  }
+  const seconds = Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+};
+
+export const MIN_RATE = 0.5;
+export const MAX_RATE = 3;
+export const RATE_STEP = 0.05;
+
+// Keeps a rate in range and on the fine-step grid, so repeated steps do not drift
+export const clampRate = (rate: number) =>
+  Math.round(Math.min(MAX_RATE, Math.max(MIN_RATE, rate)) / RATE_STEP) / (1 / RATE_STEP);
+
+export const isLoopActive = (loop: LoopRegion | null): loop is LoopRegion & { end: number } =>
+  loop !== null && loop.end !== null && loop.end > loop.start;
+
+// Where the player is with the current track; `isLoading` is true exactly in the loading phase
+export type PlaybackPhase = "idle" | "loading" | "ready" | "playing" | "paused" | "ended" | "error";
+
+// The phases each phase may move to. Loading is allowed from everywhere, including from loading itself,
+// so a newer track request can take over from one that is still in progress. Error is allowed from every
+// phase a loaded sound can reach, since starting playback can still fail after the status listener has
+// moved the phase on.
+const PHASE_TRANSITIONS: Record<PlaybackPhase, PlaybackPhase[]> = {
+  idle: ["loading"],
+  loading: ["loading", "ready", "error"],
+  ready: ["loading", "playing", "ended", "error"],
+  playing: ["loading", "paused", "ready", "ended", "error"],
+  paused: ["loading", "playing", "ready", "ended", "error"],
+  ended: ["loading", "playing", "ready", "error"],
+  error: ["loading"],
+};
+
 export interface AudioState {
+  phase: PlaybackPhase;
+  // Why the last track failed to load, while in the error phase
+  error: string | null;
   isPlaying: boolean;
   isLoading: boolean;
   currentTrack: Track | null;
   position: number;
   duration: number;
   volume: number;
+  queue: Track[];
+  currentIndex: number;
+  repeatMode: RepeatMode;
+  isShuffled: boolean;
+  rate: number;
+  pitchCorrection: boolean;
+  // Where the current rate is remembered, if the user asked for that
+  rateScope: RateScope | null;
+  loop: LoopRegion | null;
+  // How often playback has jumped back to A since the region was set
+  loopCount: number;
+  loopSaved: boolean;
+  sleepTimer: SleepTimer | null;
+  // Where a long file was left last time, offered until the user resumes or starts over
+  resumePoint: number | null;
 }
 
-class AudioService {
-  private sound: Audio.Sound | null = null;
+// Restart the current track instead of going back when "previous" is pressed past this point
+const PREVIOUS_RESTART_THRESHOLD = 3000;
+
+// Status updates come this often while a range is previewed or a loop is active, so the end is caught promptly
+const RANGE_UPDATE_INTERVAL = 50;
+const DEFAULT_UPDATE_INTERVAL = 500;
+
+// Volume ramps are applied in steps this far apart
+const RAMP_STEP = 50;
+
+// The next track starts loading this long before the current one ends, so it can start without a gap
+const PRELOAD_LEAD = 10000;
+
+// The sleep timer fades the volume down over this final stretch
+const SLEEP_FADE_DURATION = 45000;
+const SLEEP_CHECK_INTERVAL = 1000;
+
+// The session is saved at least this often while playing, besides on pausing and leaving the app
+const SESSION_SAVE_INTERVAL = 10000;
+
+const shuffleTracks = (tracks: Track[]): Track[] => {
+  const shuffled = [...tracks];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Turns the saved ids back into tracks from the library; tracks that are gone are left out of the queue
+const resolveSessionQueue = (session: PlaybackSession, library: Track[]) => {
+  const byId = new Map(library.map((track) => [track.id, track]));
+  byId.set(session.track.id, byId.get(session.track.id) ?? session.track);
+  const resolve = (ids: string[]) => ids.flatMap((id) => byId.get(id) ?? []);
+
+  const { queue, currentIndex } = session;
+  const current = queue[currentIndex];
+  return {
+    queue: resolve(queue),
+    originalQueue: resolve(session.originalQueue),
+    // Shifted back by the missing tracks before it
+    currentIndex: current !== undefined && byId.has(current) ? resolve(queue.slice(0, currentIndex)).length : -1,
+  };
+};
+
+// The stores AudioService reads and writes, and how it hears that the app went to the background. They are
+// passed in rather than imported so the class loads on Node; AppAudio wires up the ones backed by the device.
+export interface AudioServiceDeps {
+  backend: PlaybackBackend;
+  playbackSettings: Pick<typeof playbackSettings, "load" | "get">;
+  playbackRates: Pick<typeof playbackRates, "load" | "resolve" | "remember">;
+  loopRegions: Pick<typeof loopRegions, "load" | "get" | "save">;
+  resumePositions: Pick<typeof resumePositions, "load" | "getResumePoint" | "record" | "clear" | "save">;
+  playStats: Pick<typeof playStats, "recordPlay">;
+  readSession(): Promise<PlaybackSession | null>;
+  writeSession(session: PlaybackSession | null): Promise<void>;
+  onBackground(listener: () => void): void;
+}
+
+export class AudioService {
+  private backend: PlaybackBackend;
+  private deps: AudioServiceDeps;
+  private sound: PlaybackSound | null = null;
+  // Sounds still fading out after a crossfade; unloaded once silent
+  private fadingSounds = new Set<PlaybackSound>();
+  // Fade level per sound, from 0 to 1; the sound's volume is this times the user's volume
+  private gains = new Map<PlaybackSound, number>();
+  // Latest ramp per sound, so a newer fade cancels the one in progress
+  private ramps = new Map<PlaybackSound, number>();
+  private rampId = 0;
+  private crossfadeStarted = false;
+  // The upcoming queue item, loaded but not playing; `ready` is false if loading failed
+  private preload: { track: Track; sound: PlaybackSound; ready: Promise<boolean> } | null = null;
   private listeners: ((state: AudioState) => void)[] = [];
+  // Queue order before shuffling, so shuffle can be turned off again
+  private originalQueue: Track[] = [];
+  // End of the range being previewed; playback pauses once it is reached
+  private rangeEnd: number | null = null;
+  // Bumped by every track load; a load whose token is no longer the latest gives up
+  private loadToken = 0;
   private state: AudioState = {
+    phase: "idle",
+    error: null,
     isPlaying: false,
     isLoading: false,
     currentTrack: null,
     position: 0,
     duration: 0,
     volume: 1.0,
+    queue: [],
+    currentIndex: -1,
+    repeatMode: "off",
+    isShuffled: false,
+    rate: 1,
+    pitchCorrection: true,
+    rateScope: null,
+    loop: null,
+    loopCount: 0,
+    loopSaved: false,
+    sleepTimer: null,
+    resumePoint: null,
   };
+  private lastSessionSave = 0;
+  // Volume factor applied by the sleep timer's fade, on top of the user's volume and any track fade
+  private sleepGain = 1;
+  // Cancels the sleep timer's periodic check
+  private stopSleepCheck: (() => void) | null = null;
+  // Rate for tracks with nothing remembered: the last one set without remembering it
+  private defaultRate: RateSetting = { rate: 1, pitchCorrection: true };
 
-  constructor() {
+  constructor(deps: AudioServiceDeps) {
+    this.backend = deps.backend;
+    this.deps = deps;
     this.setupAudio();
+    deps.playbackSettings.load();
+    deps.playbackRates.load();
+    deps.loopRegions.load();
+    deps.resumePositions.load();
+    deps.onBackground(() => this.saveSession());
   }
 
   private async setupAudio() {
     try {
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: false,
-        staysActiveInBackground: true,
-        playsInSilentModeIOS: true,
-        shouldDuckAndroid: true,
-        playThroughEarpieceAndroid: false,
-      });
+      await this.backend.setup();
     } catch (error) {
       console.error("Error setting up audio:", error);
     }
   }
 
+  // Picks up where the last session left off, paused. The saved queue holds track ids, which are looked up
+  // in `library`; tracks no longer in it are left out.
+  async restoreSession(library: Track[]) {
+    const token = this.loadToken;
+    const session = await this.deps.readSession();
+    // Something was already started while the session was being read
+    if (!session || this.loadToken !== token) {
+      return;
+    }
+
+    const { track, position, volume, repeatMode, isShuffled } = session;
+    const { queue, originalQueue, currentIndex } = resolveSessionQueue(session, library);
+    this.originalQueue = originalQueue;
+    this.updateState({ queue, currentIndex, volume, repeatMode, isShuffled });
+    await this.startTrack(track, false);
+    // The saved track may no longer load, e.g. once its file is gone, or another track was picked meanwhile
+    if (this.loadToken === token + 1 && this.state.phase === "ready" && position > 0) {
+      await this.seek(position);
+      this.updateState({ position, resumePoint: null });
+    }
+  }
+
+  saveSession() {
+    this.lastSessionSave = this.backend.clock.now();
+    const { currentTrack, position, queue, currentIndex, volume, repeatMode, isShuffled } = this.state;
+    this.deps.resumePositions.save();
+    return this.deps.writeSession(
+      currentTrack
+        ? {
+            track: currentTrack,
+            position,
+            queue: queue.map((t) => t.id),
+            originalQueue: this.originalQueue.map((t) => t.id),
+            currentIndex,
+            volume,
+            repeatMode,
+            isShuffled,
+          }
+        : null
+    );
+  }
+
   subscribe(listener: (state: AudioState) => void) {
     this.listeners.push(listener);
     return () => {
@@ -65,54 +285,314 @@ class AudioService {
     this.notifyListeners();
   }
 
-  async loadTrack(track: Track) {
-    try {
-      this.updateState({ isLoading: true });
+  // Moves to another phase, applying `updates` along with it. A move the table does not allow is
+  // ignored and reported, so a stray status update cannot e.g. mark a failed track as playing.
+  private transition(phase: PlaybackPhase, updates: Partial<AudioState> = {}) {
+    const from = this.state.phase;
+    if (phase !== from && !PHASE_TRANSITIONS[from].includes(phase)) {
+      console.warn(`Ignoring playback transition from ${from} to ${phase}`);
+      return false;
+    }
+    this.updateState({ phase, isLoading: phase === "loading", error: null, ...updates });
+    return true;
+  }
 
-      if (this.sound) {
-        await this.sound.unloadAsync();
-      }
+  // Moves a sound's fade level towards `target`; resolves false if another ramp took over first
+  private ramp(sound: PlaybackSound, target: number, duration: number): Promise<boolean> {
+    const id = ++this.rampId;
+    this.ramps.set(sound, id);
+    const from = this.gains.get(sound) ?? 1;
+    const startedAt = this.backend.clock.now();
 
-      this.sound = new Audio.Sound();
-      const source: AVPlaybackSource = { uri: track.uri };
+    return new Promise((resolve) => {
+      const step = () => {
+        if (this.ramps.get(sound) !== id) {
+          resolve(false);
+          return;
+        }
+        const progress = duration > 0 ? Math.min(1, (this.backend.clock.now() - startedAt) / duration) : 1;
+        this.gains.set(sound, from + (target - from) * progress);
+        sound.setVolume(this.outputVolume(sound)).catch(() => undefined);
+        if (progress < 1) {
+          this.backend.clock.setTimeout(step, RAMP_STEP);
+        } else {
+          this.ramps.delete(sound);
+          resolve(true);
+        }
+      };
+      step();
+    });
+  }
 
-      await this.sound.loadAsync(source);
+  // Jumps straight to a fade level, cancelling any ramp
+  private setGain(sound: PlaybackSound, gain: number) {
+    this.ramps.delete(sound);
+    this.gains.set(sound, gain);
+    return sound.setVolume(this.outputVolume(sound));
+  }
 
-      this.sound.setOnPlaybackStatusUpdate((status) => {
-        if (status.isLoaded) {
-          this.updateState({
-            isPlaying: status.isPlaying || false,
-            position: status.positionMillis || 0,
-            duration: status.durationMillis || 0,
-          });
-        }
+  private outputVolume(sound: PlaybackSound) {
+    return this.state.volume * (this.gains.get(sound) ?? 1) * this.sleepGain;
+  }
+
+  private applyVolume() {
+    const sounds = [...this.fadingSounds, ...(this.sound ? [this.sound] : [])];
+    return Promise.all(sounds.map((sound) => sound.setVolume(this.outputVolume(sound))));
+  }
+
+  private async unloadSound(sound: PlaybackSound) {
+    this.ramps.delete(sound);
+    this.gains.delete(sound);
+    this.fadingSounds.delete(sound);
+    await sound.unload().catch((error) => console.error("Error unloading sound:", error));
+  }
+
+  private async fadeOutAndUnload(sound: PlaybackSound, duration: number) {
+    sound.onStatus(null);
+    this.fadingSounds.add(sound);
+    await this.ramp(sound, 0, duration);
+    await this.unloadSound(sound);
+  }
+
+  async loadTrack(track: Track, shouldPlay = false) {
+    await this.startTrack(track, shouldPlay);
+  }
+
+  // With a crossfade the previous sound keeps playing and fades out while the new one fades in
+  private preloadNext() {
+    const nextIndex = this.nextIndex();
+    const track = nextIndex !== null ? this.state.queue[nextIndex] : null;
+    if (!track || this.preload?.track.id === track.id) {
+      return;
+    }
+
+    this.discardPreload();
+    const sound = this.backend.createSound();
+    const ready = sound
+      .load(track.uri, { shouldPlay: false, volume: 0 })
+      .then(() => true)
+      .catch((error) => {
+        console.error(`Error preloading ${track.fileName}:`, error);
+        return false;
       });
+    this.preload = { track, sound, ready };
+  }
 
-      this.updateState({
+  private discardPreload() {
+    if (this.preload) {
+      this.preload.sound.unload().catch(() => undefined);
+      this.preload = null;
+    }
+  }
+
+  // The preloaded sound if it holds `track` and loaded fine; a preload still in flight is waited for
+  private async takePreload(track: Track): Promise<PlaybackSound | null> {
+    const preload = this.preload;
+    if (!preload) {
+      return null;
+    }
+    // Preloaded for a different track, e.g. after the queue changed; it would only hold on to a player
+    if (preload.track.id !== track.id) {
+      this.discardPreload();
+      return null;
+    }
+    this.preload = null;
+    if (await preload.ready) {
+      return preload.sound;
+    }
+    preload.sound.unload().catch(() => undefined);
+    return null;
+  }
+
+  private async startTrack(track: Track, shouldPlay: boolean, crossfade = 0) {
+    // Every call supersedes the ones before it; a load that finishes after a newer one started is thrown away
+    const token = ++this.loadToken;
+    const isCurrent = () => token === this.loadToken;
+    // Detached straight away, so controls and status updates stop acting on the old track while the new one loads
+    const previous = this.sound;
+    this.sound = null;
+    this.rangeEnd = null;
+    this.crossfadeStarted = false;
+    this.transition("loading");
+
+    let sound: PlaybackSound | null = null;
+    try {
+      const preloaded = await this.takePreload(track);
+      sound = preloaded ?? this.backend.createSound();
+      await Promise.all([
+        this.deps.loopRegions.load(),
+        this.deps.playbackRates.load(),
+        this.deps.resumePositions.load(),
+      ]);
+      if (!isCurrent()) {
+        await this.discardSounds(sound, previous);
+        return;
+      }
+
+      const fading = [...this.fadingSounds];
+      if (previous && crossfade > 0) {
+        this.fadeOutAndUnload(previous, crossfade);
+      } else if (!preloaded) {
+        await Promise.all([...fading, ...(previous ? [previous] : [])].map((s) => this.unloadSound(s)));
+      }
+
+      const fadeIn = crossfade > 0 ? crossfade : shouldPlay ? this.deps.playbackSettings.get().fadeIn : 0;
+      this.gains.set(sound, fadeIn > 0 ? 0 : 1);
+      const volume = this.outputVolume(sound);
+      const remembered = this.deps.playbackRates.resolve(track);
+      const { rate, pitchCorrection } = remembered?.setting ?? this.defaultRate;
+
+      if (preloaded) {
+        await sound.setVolume(volume);
+        await sound.setRate(rate, pitchCorrection);
+      } else {
+        await sound.load(track.uri, { shouldPlay: false, volume, rate, pitchCorrection });
+      }
+      if (!isCurrent()) {
+        await this.discardSounds(sound, previous);
+        return;
+      }
+
+      this.sound = sound;
+      const savedLoop = this.deps.loopRegions.get(track.id);
+      this.transition("ready", {
         currentTrack: track,
-        isLoading: false,
+        rate,
+        pitchCorrection,
+        rateScope: remembered?.scope ?? null,
+        isPlaying: false,
         position: 0,
+        loop: savedLoop,
+        loopSaved: savedLoop !== null,
+        loopCount: 0,
+        resumePoint: this.deps.resumePositions.getResumePoint(track.id),
       });
+      sound.onStatus((status) => {
+        // A sound that was replaced no longer speaks for the player
+        if (sound !== this.sound) {
+          return;
+        }
+        const { phase } = this.state;
+        this.transition(
+          status.isPlaying ? "playing" : status.didJustFinish ? "ended" : phase === "playing" ? "paused" : phase,
+          { isPlaying: status.isPlaying, position: status.position, duration: status.duration }
+        );
+        // Until the user answers the resume prompt, the start of the file is not where they left off
+        if (status.duration && this.state.resumePoint === null) {
+          this.deps.resumePositions.record(track.id, status.position, status.duration);
+        }
+        if (status.isPlaying && this.backend.clock.now() - this.lastSessionSave >= SESSION_SAVE_INTERVAL) {
+          this.saveSession();
+        }
+
+        if (this.rangeEnd !== null && status.position >= this.rangeEnd) {
+          this.endRange(true);
+        }
+
+        const { loop } = this.state;
+        if (this.rangeEnd === null && isLoopActive(loop)) {
+          // A region running to the very end of the track is caught by the finish event instead
+          if (status.position >= loop.end || status.didJustFinish) {
+            this.jumpToLoopStart(status.didJustFinish);
+            return;
+          }
+        }
+
+        const remaining = status.duration - status.position;
+        if (status.isPlaying && remaining <= this.deps.playbackSettings.get().crossfade + PRELOAD_LEAD) {
+          this.preloadNext();
+        }
+
+        if (status.isPlaying && status.duration && this.shouldStartCrossfade(status)) {
+          this.crossfadeStarted = true;
+          this.handleTrackFinished(Math.min(this.deps.playbackSettings.get().crossfade, status.duration / 2));
+        } else if (status.didJustFinish && !this.crossfadeStarted) {
+          this.handleTrackFinished();
+        }
+      });
+      this.syncUpdateInterval();
+      if (shouldPlay) {
+        await sound.play();
+      }
+      if (fadeIn > 0) {
+        this.ramp(sound, 1, fadeIn);
+      }
+      if (preloaded && crossfade === 0) {
+        // The next track is already playing, so letting go of the old one now leaves no gap between them
+        this.discardSounds(...fading, previous);
+      }
+      this.saveSession();
     } catch (error) {
-      console.error("Error loading track:", error);
-      this.updateState({ isLoading: false });
+      if (isCurrent()) {
+        this.sound = null;
+      }
+      this.discardSounds(sound, previous);
+      if (isCurrent()) {
+        console.error("Error loading track:", error);
+        this.transition("error", { currentTrack: track, isPlaying: false, error: `Could not play ${track.fileName}` });
+      }
     }
   }
 
+  // Lets go of sounds that are no longer needed, unless one of them became the current sound again
+  private discardSounds(...sounds: (PlaybackSound | null)[]) {
+    return Promise.all(sounds.map((s) => (s && s !== this.sound ? this.unloadSound(s) : undefined)));
+  }
+
+  private shouldStartCrossfade(status: PlaybackStatus) {
+    const { crossfade } = this.deps.playbackSettings.get();
+    const { sleepTimer } = this.state;
+    if (
+      crossfade === 0 ||
+      (sleepTimer?.mode === "tracks" && sleepTimer.tracksLeft <= 1) ||
+      isLoopActive(this.state.loop) ||
+      this.crossfadeStarted ||
+      this.rangeEnd !== null ||
+      this.nextIndex() === null
+    ) {
+      return false;
+    }
+    return status.duration - status.position <= Math.min(crossfade, status.duration / 2);
+  }
+
   async play() {
     try {
-      if (this.sound) {
-        await this.sound.playAsync();
+      const sound = this.sound;
+      if (sound) {
+        const { fadeIn } = this.deps.playbackSettings.get();
+        if (fadeIn > 0) {
+          // Fading in from silence, or back up from wherever a fade-out had got to
+          if (!this.state.isPlaying) {
+            await this.setGain(sound, 0);
+          }
+          await sound.play();
+          this.ramp(sound, 1, fadeIn);
+        } else {
+          await this.setGain(sound, 1);
+          await sound.play();
+        }
       }
     } catch (error) {
       console.error("Error playing:", error);
     }
   }
 
+  // Fades the sound out if set to; false means playback was resumed before the fade finished
+  private async fadeOut(sound: PlaybackSound) {
+    const { fadeOut } = this.deps.playbackSettings.get();
+    if (fadeOut === 0 || !this.state.isPlaying) {
+      return true;
+    }
+    return this.ramp(sound, 0, fadeOut);
+  }
+
   async pause() {
     try {
-      if (this.sound) {
-        await this.sound.pauseAsync();
+      this.endRange();
+      const sound = this.sound;
+      if (sound && (await this.fadeOut(sound))) {
+        await sound.pause();
+        this.saveSession();
       }
     } catch (error) {
       console.error("Error pausing:", error);
@@ -121,10 +601,13 @@ class AudioService {
 
   async stop() {
     try {
-      if (this.sound) {
-        await this.sound.stopAsync();
+      // Nothing to stop while idle, loading or after a failed load
+      const sound = this.sound;
+      if (!sound || !(await this.fadeOut(sound)) || sound !== this.sound) {
+        return;
       }
-      this.updateState({ position: 0 });
+      await sound.stop();
+      this.transition(this.state.phase === "ended" ? "ended" : "ready", { position: 0 });
     } catch (error) {
       console.error("Error stopping:", error);
     }
@@ -133,27 +616,444 @@ class AudioService {
   async seek(positionMillis: number) {
     try {
       if (this.sound) {
-        await this.sound.setPositionAsync(positionMillis);
+        await this.sound.seek(positionMillis);
       }
     } catch (error) {
       console.error("Error seeking:", error);
     }
   }
 
-  async setVolume(volume: number) {
+  async resumeFromPoint() {
+    const { resumePoint } = this.state;
+    this.updateState({ resumePoint: null });
+    if (resumePoint !== null) {
+      await this.seek(resumePoint);
+    }
+  }
+
+  // Starting over forgets the saved position
+  dismissResumePoint() {
+    const { currentTrack } = this.state;
+    this.updateState({ resumePoint: null });
+    if (currentTrack) {
+      this.deps.resumePositions.clear(currentTrack.id);
+    }
+  }
+
+  // Plays part of a track, e.g. the selection in the clip editor, without touching the queue
+  async playRange(track: Track, start: number, end: number) {
+    if (this.state.currentTrack?.id !== track.id || !this.sound) {
+      await this.loadTrack(track);
+    }
+
+    try {
+      // Skipped if the load failed or another track was picked while it ran
+      if (this.sound && this.state.currentTrack?.id === track.id) {
+        this.rangeEnd = end;
+        await this.setGain(this.sound, 1);
+        this.syncUpdateInterval();
+        await this.sound.seek(start);
+        await this.sound.play();
+      }
+    } catch (error) {
+      console.error("Error previewing range:", error);
+    }
+  }
+
+  private endRange(pause = false) {
+    if (this.rangeEnd === null) {
+      return;
+    }
+    this.rangeEnd = null;
+    this.syncUpdateInterval();
+    if (pause) {
+      this.sound?.pause().catch((error) => console.error("Error pausing:", error));
+    }
+  }
+
+  private syncUpdateInterval() {
+    const interval =
+      this.rangeEnd !== null || isLoopActive(this.state.loop) ? RANGE_UPDATE_INTERVAL : DEFAULT_UPDATE_INTERVAL;
+    this.sound?.setUpdateInterval(interval).catch(() => undefined);
+  }
+
+  private jumpToLoopStart(resume: boolean) {
+    const { loop, loopCount } = this.state;
+    const sound = this.sound;
+    if (!loop || !sound) {
+      return;
+    }
+    this.updateState({ loopCount: loopCount + 1 });
+    sound
+      .seek(Math.max(0, loop.start - loop.preRoll))
+      .then(() => (resume ? sound.play() : undefined))
+      .catch((error) => console.error("Error looping:", error));
+  }
+
+  private setLoop(loop: LoopRegion | null) {
+    const { currentTrack, loopSaved } = this.state;
+    this.updateState({ loop, loopCount: 0, loopSaved: loopSaved && loop !== null });
+    this.syncUpdateInterval();
+    // A saved region follows the user's edits
+    if (currentTrack && loopSaved) {
+      this.deps.loopRegions.save(currentTrack.id, loop);
+    }
+  }
+
+  // Marks A or B at the current position; B needs to come after A
+  setLoopPoint(point: "start" | "end", position = this.state.position) {
+    const { loop } = this.state;
+    const preRoll = loop?.preRoll ?? 0;
+    if (point === "start") {
+      const end = loop && loop.end !== null && loop.end > position ? loop.end : null;
+      this.setLoop({ start: position, end, preRoll });
+      return;
+    }
+    const start = loop?.start ?? 0;
+    if (position > start) {
+      this.setLoop({ start, end: position, preRoll });
+    }
+  }
+
+  setLoopPreRoll(preRoll: number) {
+    if (this.state.loop) {
+      this.setLoop({ ...this.state.loop, preRoll });
+    }
+  }
+
+  clearLoop() {
+    this.setLoop(null);
+  }
+
+  // Saves the region with the track so it comes back the next time the track is loaded
+  async saveLoop(save: boolean) {
+    const { currentTrack, loop } = this.state;
+    if (!currentTrack || (save && !loop)) {
+      return;
+    }
+    this.updateState({ loopSaved: save });
+    await this.deps.loopRegions.save(currentTrack.id, save ? loop : null);
+  }
+
+  // 0.5x to 3x; pitch correction keeps voices natural, without it the pitch follows the speed
+  async setRate(rate: number, pitchCorrection = this.state.pitchCorrection) {
+    const setting: RateSetting = { rate: clampRate(rate), pitchCorrection };
     try {
       if (this.sound) {
-        await this.sound.setVolumeAsync(volume);
-        this.updateState({ volume });
+        await this.sound.setRate(setting.rate, pitchCorrection);
+      }
+      this.updateState(setting);
+
+      const { currentTrack, rateScope } = this.state;
+      if (currentTrack && rateScope) {
+        await this.deps.playbackRates.remember(currentTrack, rateScope, setting);
+      } else {
+        this.defaultRate = setting;
       }
+    } catch (error) {
+      console.error("Error setting rate:", error);
+    }
+  }
+
+  // Keeps the current rate for this track or its whole folder; null goes back to the default rate next time
+  async rememberRate(scope: RateScope | null) {
+    const { currentTrack, rate, pitchCorrection } = this.state;
+    if (!currentTrack) {
+      return;
+    }
+    await this.deps.playbackRates.remember(currentTrack, scope, { rate, pitchCorrection });
+    this.updateState({ rateScope: scope });
+  }
+
+  async setVolume(volume: number) {
+    try {
+      this.updateState({ volume });
+      // Sounds in the middle of a fade keep their fade level
+      await this.applyVolume();
     } catch (error) {
       console.error("Error setting volume:", error);
     }
   }
 
+  async playQueue(tracks: Track[], startIndex = 0, shouldPlay = false) {
+    if (tracks.length === 0) {
+      return;
+    }
+
+    const index = Math.min(Math.max(startIndex, 0), tracks.length - 1);
+    this.originalQueue = [...tracks];
+
+    if (this.state.isShuffled) {
+      const startTrack = tracks[index];
+      const rest = shuffleTracks(tracks.filter((_, i) => i !== index));
+      this.updateState({ queue: [startTrack, ...rest], currentIndex: 0 });
+    } else {
+      this.updateState({ queue: [...tracks], currentIndex: index });
+    }
+
+    await this.loadTrack(this.state.queue[this.state.currentIndex], shouldPlay);
+  }
+
+  enqueue(tracks: Track | Track[]) {
+    const added = Array.isArray(tracks) ? tracks : [tracks];
+    this.originalQueue = [...this.originalQueue, ...added];
+    this.updateState({ queue: [...this.state.queue, ...added] });
+  }
+
+  dequeue(index: number) {
+    const { queue, currentIndex } = this.state;
+    if (index < 0 || index >= queue.length || index === currentIndex) {
+      return;
+    }
+
+    const removed = queue[index];
+    const originalIndex = this.originalQueue.indexOf(removed);
+    if (originalIndex !== -1) {
+      this.originalQueue = this.originalQueue.filter((_, i) => i !== originalIndex);
+    }
+
+    this.updateState({
+      queue: queue.filter((_, i) => i !== index),
+      currentIndex: index < currentIndex ? currentIndex - 1 : currentIndex,
+    });
+  }
+
+  moveInQueue(fromIndex: number, toIndex: number) {
+    const { queue, currentIndex } = this.state;
+    if (fromIndex < 0 || fromIndex >= queue.length || toIndex < 0 || toIndex >= queue.length) {
+      return;
+    }
+
+    const reordered = [...queue];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+
+    let newIndex = currentIndex;
+    if (fromIndex === currentIndex) {
+      newIndex = toIndex;
+    } else if (fromIndex < currentIndex && toIndex >= currentIndex) {
+      newIndex = currentIndex - 1;
+    } else if (fromIndex > currentIndex && toIndex <= currentIndex) {
+      newIndex = currentIndex + 1;
+    }
+
+    // A manual reorder becomes the new baseline order
+    if (!this.state.isShuffled) {
+      this.originalQueue = reordered;
+    }
+
+    this.updateState({ queue: reordered, currentIndex: newIndex });
+  }
+
+  // Refreshes metadata for a track that was edited while queued or playing
+  updateTrack(track: Track) {
+    const replace = (t: Track) => (t.id === track.id ? track : t);
+    this.originalQueue = this.originalQueue.map(replace);
+    this.updateState({
+      queue: this.state.queue.map(replace),
+      currentTrack: this.state.currentTrack?.id === track.id ? track : this.state.currentTrack,
+    });
+  }
+
+  clearQueue() {
+    const { currentTrack } = this.state;
+    this.originalQueue = currentTrack ? [currentTrack] : [];
+    this.updateState({ queue: [...this.originalQueue], currentIndex: currentTrack ? 0 : -1 });
+  }
+
+  async next() {
+    const { queue, currentIndex, repeatMode, isPlaying } = this.state;
+    if (queue.length === 0) {
+      return;
+    }
+
+    if (currentIndex < queue.length - 1) {
+      await this.skipTo(currentIndex + 1, isPlaying);
+    } else if (repeatMode === "all") {
+      await this.skipTo(0, isPlaying);
+    }
+  }
+
+  async previous() {
+    const { queue, currentIndex, repeatMode, isPlaying, position } = this.state;
+    if (queue.length === 0) {
+      return;
+    }
+
+    if (position > PREVIOUS_RESTART_THRESHOLD || (currentIndex === 0 && repeatMode !== "all")) {
+      await this.seek(0);
+    } else if (currentIndex > 0) {
+      await this.skipTo(currentIndex - 1, isPlaying);
+    } else {
+      await this.skipTo(queue.length - 1, isPlaying);
+    }
+  }
+
+  async skipTo(index: number, shouldPlay = true) {
+    const { queue } = this.state;
+    if (index < 0 || index >= queue.length) {
+      return;
+    }
+
+    this.updateState({ currentIndex: index });
+    await this.loadTrack(queue[index], shouldPlay);
+  }
+
+  setRepeatMode(repeatMode: RepeatMode) {
+    this.updateState({ repeatMode });
+  }
+
+  cycleRepeatMode() {
+    const order: RepeatMode[] = ["off", "all", "one"];
+    const next = order[(order.indexOf(this.state.repeatMode) + 1) % order.length];
+    this.setRepeatMode(next);
+  }
+
+  setShuffle(enabled: boolean) {
+    if (enabled === this.state.isShuffled) {
+      return;
+    }
+
+    const { queue, currentIndex, currentTrack } = this.state;
+
+    if (enabled) {
+      this.originalQueue = [...queue];
+      const current = currentIndex >= 0 ? queue[currentIndex] : undefined;
+      const rest = shuffleTracks(queue.filter((_, i) => i !== currentIndex));
+      this.updateState({
+        isShuffled: true,
+        queue: current ? [current, ...rest] : rest,
+        currentIndex: current ? 0 : -1,
+      });
+    } else {
+      const restored = [...this.originalQueue];
+      const restoredIndex = currentTrack ? restored.findIndex((t) => t.id === currentTrack.id) : -1;
+      this.updateState({ isShuffled: false, queue: restored, currentIndex: restoredIndex });
+    }
+  }
+
+  toggleShuffle() {
+    this.setShuffle(!this.state.isShuffled);
+  }
+
+  // Where the queue goes when the current track ends on its own; null when it stops or repeats the track
+  private nextIndex(): number | null {
+    const { queue, currentIndex, repeatMode } = this.state;
+    if (repeatMode === "one") {
+      return null;
+    }
+    if (currentIndex < queue.length - 1) {
+      return currentIndex + 1;
+    }
+    return repeatMode === "all" && queue.length > 0 ? 0 : null;
+  }
+
+  startSleepTimer(timer: { minutes: number } | { tracks: number }) {
+    this.updateState({
+      sleepTimer:
+        "minutes" in timer
+          ? { mode: "time", endsAt: this.backend.clock.now() + timer.minutes * 60000 }
+          : { mode: "tracks", tracksLeft: Math.max(1, timer.tracks) },
+    });
+    if (!this.stopSleepCheck) {
+      this.stopSleepCheck = this.backend.clock.setInterval(() => this.checkSleepTimer(), SLEEP_CHECK_INTERVAL);
+    }
+    this.checkSleepTimer();
+  }
+
+  // Adds minutes to a time-based timer, or one more track to a track-based one
+  extendSleepTimer(minutes = 5) {
+    const timer = this.state.sleepTimer;
+    if (timer?.mode === "time") {
+      this.updateState({
+        sleepTimer: { ...timer, endsAt: Math.max(timer.endsAt, this.backend.clock.now()) + minutes * 60000 },
+      });
+    } else if (timer) {
+      this.updateState({ sleepTimer: { ...timer, tracksLeft: timer.tracksLeft + 1 } });
+    }
+    this.checkSleepTimer();
+  }
+
+  cancelSleepTimer() {
+    if (this.stopSleepCheck) {
+      this.stopSleepCheck();
+      this.stopSleepCheck = null;
+    }
+    this.updateState({ sleepTimer: null });
+    // Back to the user's volume
+    this.sleepGain = 1;
+    this.applyVolume().catch(() => undefined);
+  }
+
+  // Time left before the sleep timer stops playback, once it is known
+  private sleepRemaining(): number | null {
+    const { sleepTimer, duration, position, rate, loop } = this.state;
+    if (!sleepTimer) {
+      return null;
+    }
+    if (sleepTimer.mode === "time") {
+      return sleepTimer.endsAt - this.backend.clock.now();
+    }
+    // A looping track never reaches its end
+    if (sleepTimer.tracksLeft > 1 || duration === 0 || isLoopActive(loop)) {
+      return null;
+    }
+    return (duration - position) / rate;
+  }
+
+  private async checkSleepTimer() {
+    const remaining = this.sleepRemaining();
+    if (remaining === null) {
+      return;
+    }
+    if (remaining <= 0 && this.state.sleepTimer?.mode === "time") {
+      // The check stops first so it cannot fire again during a fade-out, and the timer is cancelled, which
+      // restores the volume, only once playback has paused
+      this.stopSleepCheck?.();
+      this.stopSleepCheck = null;
+      await this.pause();
+      this.cancelSleepTimer();
+      return;
+    }
+
+    const sleepGain = Math.min(1, Math.max(0, remaining / SLEEP_FADE_DURATION));
+    if (Math.abs(sleepGain - this.sleepGain) >= 0.01) {
+      this.sleepGain = sleepGain;
+      this.applyVolume().catch(() => undefined);
+    }
+  }
+
+  private async handleTrackFinished(crossfade = 0) {
+    const { queue, repeatMode, currentTrack, sleepTimer } = this.state;
+    if (currentTrack) {
+      this.deps.playStats.recordPlay(currentTrack.id);
+    }
+
+    if (sleepTimer?.mode === "tracks") {
+      if (sleepTimer.tracksLeft <= 1) {
+        await this.stop();
+        this.cancelSleepTimer();
+        return;
+      }
+      this.updateState({ sleepTimer: { ...sleepTimer, tracksLeft: sleepTimer.tracksLeft - 1 } });
+    }
+
+    const nextIndex = this.nextIndex();
+    if (repeatMode === "one") {
+      try {
+        await this.sound?.replay();
+      } catch (error) {
+        console.error("Error replaying track:", error);
+      }
+    } else if (nextIndex !== null) {
+      this.updateState({ currentIndex: nextIndex });
+      await this.startTrack(queue[nextIndex], true, crossfade);
+    } else {
+      await this.stop();
+    }
+  }
+
   getState(): AudioState {
     return { ...this.state };
   }
 }
-
-export const audioService = new AudioService();
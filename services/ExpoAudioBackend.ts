@@ -0,0 +1,140 @@
+import { LoadOptions, PlaybackBackend, PlaybackSound, PlaybackStatus, systemClock } from "@/services/PlaybackBackend";
+import { AudioPlayer, AudioStatus, createAudioPlayer, setAudioModeAsync } from "expo-audio";
+
+// A player's update interval is fixed when it is created, so players report this often and
+// updates are thinned out to the interval AudioService asks for
+const PLAYER_UPDATE_INTERVAL = 50;
+const DEFAULT_UPDATE_INTERVAL = 500;
+// expo-audio has no load error event, so a player that has not loaded by then is given up on
+const LOAD_TIMEOUT = 15000;
+
+class ExpoAudioSound implements PlaybackSound {
+  private player: AudioPlayer | null = null;
+  private listener: ((status: PlaybackStatus) => void) | null = null;
+  private updateInterval = DEFAULT_UPDATE_INTERVAL;
+  private lastUpdate = 0;
+  private wasPlaying = false;
+  private subscription: { remove(): void } | null = null;
+  // Set while a load is waiting for the player; stops its timeout and rejects it
+  private cancelLoad: (() => void) | null = null;
+
+  private get loadedPlayer() {
+    if (!this.player) {
+      throw new Error("Sound is not loaded");
+    }
+    return this.player;
+  }
+
+  load(uri: string, { shouldPlay, volume, rate = 1, pitchCorrection = true }: LoadOptions) {
+    const player = createAudioPlayer(uri, PLAYER_UPDATE_INTERVAL);
+    this.player = player;
+    player.volume = volume;
+    player.shouldCorrectPitch = pitchCorrection;
+    player.setPlaybackRate(rate, "high");
+
+    return new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.cancelLoad = null;
+        this.subscription?.remove();
+        this.subscription = null;
+        reject(new Error(`Could not load ${uri}`));
+      }, LOAD_TIMEOUT);
+      this.cancelLoad = () => {
+        clearTimeout(timeout);
+        reject(new Error(`Unloaded before ${uri} loaded`));
+      };
+      this.subscription = player.addListener("playbackStatusUpdate", (status) => {
+        if (this.cancelLoad && status.isLoaded) {
+          clearTimeout(timeout);
+          this.cancelLoad = null;
+          if (shouldPlay) {
+            player.play();
+          }
+          resolve();
+        }
+        this.handleStatus(status);
+      });
+    });
+  }
+
+  private handleStatus(status: AudioStatus) {
+    if (!this.listener || !status.isLoaded) {
+      return;
+    }
+    const now = Date.now();
+    if (!status.didJustFinish && status.playing === this.wasPlaying && now - this.lastUpdate < this.updateInterval) {
+      return;
+    }
+    this.lastUpdate = now;
+    this.wasPlaying = status.playing;
+    this.listener({
+      isPlaying: status.playing,
+      position: status.currentTime * 1000,
+      duration: status.duration * 1000,
+      didJustFinish: status.didJustFinish && !status.loop,
+    });
+  }
+
+  async play() {
+    this.loadedPlayer.play();
+  }
+
+  async pause() {
+    this.loadedPlayer.pause();
+  }
+
+  async stop() {
+    this.loadedPlayer.pause();
+    await this.loadedPlayer.seekTo(0);
+  }
+
+  async replay() {
+    await this.loadedPlayer.seekTo(0);
+    this.loadedPlayer.play();
+  }
+
+  async seek(position: number) {
+    await this.loadedPlayer.seekTo(position / 1000);
+  }
+
+  async setVolume(volume: number) {
+    this.loadedPlayer.volume = volume;
+  }
+
+  async setRate(rate: number, pitchCorrection: boolean) {
+    this.loadedPlayer.shouldCorrectPitch = pitchCorrection;
+    this.loadedPlayer.setPlaybackRate(rate, "high");
+  }
+
+  async setUpdateInterval(interval: number) {
+    this.updateInterval = interval;
+  }
+
+  onStatus(listener: ((status: PlaybackStatus) => void) | null) {
+    this.listener = listener;
+  }
+
+  async unload() {
+    this.cancelLoad?.();
+    this.cancelLoad = null;
+    this.subscription?.remove();
+    this.subscription = null;
+    this.listener = null;
+    this.player?.remove();
+    this.player = null;
+  }
+}
+
+export const expoAudioBackend: PlaybackBackend = {
+  clock: systemClock,
+  async setup() {
+    await setAudioModeAsync({
+      allowsRecording: false,
+      shouldPlayInBackground: true,
+      playsInSilentMode: true,
+      interruptionModeAndroid: "duckOthers",
+      shouldRouteThroughEarpiece: false,
+    });
+  },
+  createSound: () => new ExpoAudioSound(),
+};
@@ -0,0 +1,86 @@
+import { LoadOptions, PlaybackBackend, PlaybackSound, PlaybackStatus, systemClock } from "@/services/PlaybackBackend";
+import { Audio } from "expo-av";
+
+class ExpoAvSound implements PlaybackSound {
+  private sound = new Audio.Sound();
+
+  async load(uri: string, { shouldPlay, volume, rate = 1, pitchCorrection = true }: LoadOptions) {
+    await this.sound.loadAsync(
+      { uri },
+      {
+        shouldPlay,
+        volume,
+        rate,
+        shouldCorrectPitch: pitchCorrection,
+        pitchCorrectionQuality: Audio.PitchCorrectionQuality.High,
+      }
+    );
+  }
+
+  async play() {
+    await this.sound.playAsync();
+  }
+
+  async pause() {
+    await this.sound.pauseAsync();
+  }
+
+  async stop() {
+    await this.sound.stopAsync();
+  }
+
+  async replay() {
+    await this.sound.replayAsync();
+  }
+
+  async seek(position: number) {
+    await this.sound.setPositionAsync(position);
+  }
+
+  async setVolume(volume: number) {
+    await this.sound.setVolumeAsync(volume);
+  }
+
+  async setRate(rate: number, pitchCorrection: boolean) {
+    await this.sound.setRateAsync(rate, pitchCorrection, Audio.PitchCorrectionQuality.High);
+  }
+
+  async setUpdateInterval(interval: number) {
+    await this.sound.setProgressUpdateIntervalAsync(interval);
+  }
+
+  onStatus(listener: ((status: PlaybackStatus) => void) | null) {
+    this.sound.setOnPlaybackStatusUpdate(
+      listener &&
+        ((status) => {
+          if (!status.isLoaded) {
+            return;
+          }
+          listener({
+            isPlaying: status.isPlaying,
+            position: status.positionMillis,
+            duration: status.durationMillis || 0,
+            didJustFinish: status.didJustFinish && !status.isLooping,
+          });
+        })
+    );
+  }
+
+  async unload() {
+    await this.sound.unloadAsync();
+  }
+}
+
+export const expoAvBackend: PlaybackBackend = {
+  clock: systemClock,
+  async setup() {
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: false,
+      staysActiveInBackground: true,
+      playsInSilentModeIOS: true,
+      shouldDuckAndroid: true,
+      playThroughEarpieceAndroid: false,
+    });
+  },
+  createSound: () => new ExpoAvSound(),
+};
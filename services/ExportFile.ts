@@ -0,0 +1,23 @@
+import * as FileSystem from "expo-file-system";
+import { Platform } from "react-native";
+
+export const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, "_");
+
+// On Android the user picks a folder through the Storage Access Framework; elsewhere the
+// file lands in the app's document directory. Returns the written URI, or null if cancelled.
+export async function saveExportFile(fileName: string, contents: string, mimeType: string): Promise<string | null> {
+  if (Platform.OS === "android") {
+    const { StorageAccessFramework } = FileSystem;
+    const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+    if (!permission.granted) {
+      return null;
+    }
+    const uri = await StorageAccessFramework.createFileAsync(permission.directoryUri, fileName, mimeType);
+    await FileSystem.writeAsStringAsync(uri, contents);
+    return uri;
+  }
+
+  const uri = `${FileSystem.documentDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, contents);
+  return uri;
+}
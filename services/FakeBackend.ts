@@ -0,0 +1,219 @@
+import { LoadOptions, PlaybackBackend, PlaybackClock, PlaybackSound, PlaybackStatus } from "@/services/PlaybackBackend";
+
+// An in-memory backend driven by a manual clock: nothing plays and no time passes until `advance` is
+// called, so AudioService's queue, fade and timer logic can be stepped through deterministically on Node.
+
+interface FakeTimer {
+  id: number;
+  dueAt: number;
+  callback: () => void;
+  // Set for intervals, which are rescheduled after running
+  interval?: number;
+}
+
+export class FakeClock implements PlaybackClock {
+  private time = 0;
+  private nextId = 0;
+  private timers: FakeTimer[] = [];
+
+  now() {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number) {
+    return this.schedule({ id: ++this.nextId, dueAt: this.time + Math.max(0, delay), callback });
+  }
+
+  setInterval(callback: () => void, interval: number) {
+    const period = Math.max(1, interval);
+    return this.schedule({ id: ++this.nextId, dueAt: this.time + period, callback, interval: period });
+  }
+
+  private schedule(timer: FakeTimer) {
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter((t) => t.id !== timer.id);
+    };
+  }
+
+  // Moves time forward, running every timer that falls due on the way in order
+  advance(milliseconds: number) {
+    const end = this.time + milliseconds;
+    for (;;) {
+      const due = this.timers.filter((timer) => timer.dueAt <= end).sort((a, b) => a.dueAt - b.dueAt || a.id - b.id);
+      if (due.length === 0) {
+        break;
+      }
+      const timer = due[0];
+      this.time = Math.max(this.time, timer.dueAt);
+      if (timer.interval) {
+        timer.dueAt += timer.interval;
+      } else {
+        this.timers = this.timers.filter((t) => t !== timer);
+      }
+      timer.callback();
+    }
+    this.time = end;
+  }
+}
+
+export class FakeSound implements PlaybackSound {
+  uri: string | null = null;
+  isPlaying = false;
+  position = 0;
+  duration = 0;
+  volume = 1;
+  rate = 1;
+  pitchCorrection = true;
+  private updateInterval = 500;
+  private listener: ((status: PlaybackStatus) => void) | null = null;
+  private stopTicking: (() => void) | null = null;
+  private lastTick = 0;
+  private clock: FakeClock;
+  private durations: Record<string, number>;
+
+  constructor(clock: FakeClock, durations: Record<string, number>) {
+    this.clock = clock;
+    this.durations = durations;
+  }
+
+  async load(uri: string, { shouldPlay, volume, rate = 1, pitchCorrection = true }: LoadOptions) {
+    if (!(uri in this.durations)) {
+      throw new Error(`No such file: ${uri}`);
+    }
+    this.uri = uri;
+    this.duration = this.durations[uri];
+    this.volume = volume;
+    this.rate = rate;
+    this.pitchCorrection = pitchCorrection;
+    if (shouldPlay) {
+      await this.play();
+    }
+  }
+
+  async play() {
+    this.assertLoaded();
+    if (this.position >= this.duration) {
+      this.position = 0;
+    }
+    this.isPlaying = true;
+    this.startTicking();
+    this.emit(false);
+  }
+
+  async pause() {
+    this.assertLoaded();
+    this.advanceTo(this.clock.now());
+    this.isPlaying = false;
+    this.stopTicking?.();
+    this.stopTicking = null;
+    this.emit(false);
+  }
+
+  async stop() {
+    await this.pause();
+    this.position = 0;
+    this.emit(false);
+  }
+
+  async replay() {
+    this.assertLoaded();
+    this.position = 0;
+    await this.play();
+  }
+
+  async seek(position: number) {
+    this.assertLoaded();
+    this.lastTick = this.clock.now();
+    this.position = Math.min(this.duration, Math.max(0, position));
+    this.emit(false);
+  }
+
+  async setVolume(volume: number) {
+    this.volume = volume;
+  }
+
+  async setRate(rate: number, pitchCorrection: boolean) {
+    this.advanceTo(this.clock.now());
+    this.rate = rate;
+    this.pitchCorrection = pitchCorrection;
+  }
+
+  async setUpdateInterval(interval: number) {
+    this.updateInterval = interval;
+    if (this.isPlaying) {
+      this.startTicking();
+    }
+  }
+
+  onStatus(listener: ((status: PlaybackStatus) => void) | null) {
+    this.listener = listener;
+  }
+
+  async unload() {
+    this.stopTicking?.();
+    this.stopTicking = null;
+    this.isPlaying = false;
+    this.listener = null;
+    this.uri = null;
+  }
+
+  private assertLoaded() {
+    if (this.uri === null) {
+      throw new Error("Sound is not loaded");
+    }
+  }
+
+  private startTicking() {
+    this.stopTicking?.();
+    this.lastTick = this.clock.now();
+    this.stopTicking = this.clock.setInterval(() => this.tick(), this.updateInterval);
+  }
+
+  private advanceTo(now: number) {
+    if (this.isPlaying) {
+      this.position = Math.min(this.duration, this.position + (now - this.lastTick) * this.rate);
+    }
+    this.lastTick = now;
+  }
+
+  private tick() {
+    this.advanceTo(this.clock.now());
+    if (this.position >= this.duration) {
+      this.isPlaying = false;
+      this.stopTicking?.();
+      this.stopTicking = null;
+      this.emit(true);
+    } else {
+      this.emit(false);
+    }
+  }
+
+  private emit(didJustFinish: boolean) {
+    this.listener?.({ isPlaying: this.isPlaying, position: this.position, duration: this.duration, didJustFinish });
+  }
+}
+
+export class FakeBackend implements PlaybackBackend {
+  clock = new FakeClock();
+  // Every sound created so far, newest last
+  sounds: FakeSound[] = [];
+  private durations: Record<string, number>;
+
+  // Maps each playable URI to its duration; loading any other URI fails
+  constructor(durations: Record<string, number> = {}) {
+    this.durations = durations;
+  }
+
+  async setup() {}
+
+  createSound() {
+    const sound = new FakeSound(this.clock, this.durations);
+    this.sounds.push(sound);
+    return sound;
+  }
+
+  advance(milliseconds: number) {
+    this.clock.advance(milliseconds);
+  }
+}
@@ -0,0 +1,37 @@
+import { base64ToBytes, ByteSource, bytesToBase64 } from "@/services/Binary";
+import * as FileSystem from "expo-file-system";
+
+// Reading and writing device files as bytes; the parsers in Binary, WavFile and TagReader stay free of Expo
+
+export async function fileSource(uri: string): Promise<ByteSource> {
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    throw new Error(`File not found: ${uri}`);
+  }
+
+  const size = info.size;
+  return {
+    size,
+    read: async (offset, length) => {
+      const clamped = Math.max(0, Math.min(length, size - offset));
+      if (clamped === 0) {
+        return new Uint8Array(0);
+      }
+      const base64 = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: offset,
+        length: clamped,
+      });
+      return base64ToBytes(base64);
+    },
+  };
+}
+
+export async function readFileBytes(uri: string): Promise<Uint8Array> {
+  const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  return base64ToBytes(base64);
+}
+
+export async function writeFileBytes(uri: string, bytes: Uint8Array): Promise<void> {
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(bytes), { encoding: FileSystem.EncodingType.Base64 });
+}
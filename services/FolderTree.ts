@@ -0,0 +1,130 @@
+import { Track } from "@/services/AudioService";
+
+export interface FolderNode {
+  path: string;
+  name: string;
+  children: FolderNode[];
+  trackCount: number; // tracks directly in this folder
+  totalTrackCount: number; // including every subfolder
+}
+
+export const UNKNOWN_FOLDER = "Unknown Folder";
+
+const splitPath = (path: string) => path.split("/").filter(Boolean);
+
+export const isInFolder = (track: Track, folderPath: string) => {
+  if (!folderPath) {
+    return true;
+  }
+  const path = track.folderPath || UNKNOWN_FOLDER;
+  return path === folderPath || path.startsWith(`${folderPath}/`);
+};
+
+const createNode = (path: string, name: string): FolderNode => ({
+  path,
+  name,
+  children: [],
+  trackCount: 0,
+  totalTrackCount: 0,
+});
+
+// Real directories share a rooted path; anything else (a media library album, the manually added
+// files) is a top-level folder of its own
+const isAbsolute = (path: string) => path.startsWith("/");
+
+const commonParts = (paths: string[]) => {
+  let common = paths.length > 0 ? splitPath(paths[0]) : [];
+  paths.forEach((path) => {
+    const parts = splitPath(path);
+    let i = 0;
+    while (i < common.length && i < parts.length && common[i] === parts[i]) {
+      i++;
+    }
+    common = common.slice(0, i);
+  });
+  return common;
+};
+
+// Directories are rooted at the deepest folder they all share, so nobody has to tap through
+// /storage/emulated/0 to reach their music
+export function buildFolderTree(tracks: Track[]): FolderNode {
+  const counts = new Map<string, number>();
+  tracks.forEach((track) => {
+    const path = track.folderPath || UNKNOWN_FOLDER;
+    counts.set(path, (counts.get(path) || 0) + 1);
+  });
+
+  const paths = Array.from(counts.keys());
+  const common = commonParts(paths.filter(isAbsolute));
+  const directoryRoot = common.length > 0 ? createNode(`/${common.join("/")}`, common[common.length - 1]) : null;
+  const hasOtherFolders = paths.some((path) => !isAbsolute(path));
+
+  const root = directoryRoot && !hasOtherFolders ? directoryRoot : createNode("", "All Folders");
+  if (directoryRoot && directoryRoot !== root) {
+    root.children.push(directoryRoot);
+  }
+
+  counts.forEach((count, path) => {
+    const parts = splitPath(path);
+    const skipped = isAbsolute(path) ? common.length : 0;
+    const leading = isAbsolute(path) ? "/" : "";
+    let node = root;
+    if (isAbsolute(path) && directoryRoot && directoryRoot !== root) {
+      root.totalTrackCount += count;
+      node = directoryRoot;
+    }
+
+    parts.slice(skipped).forEach((part, i) => {
+      const childPath = leading + parts.slice(0, skipped + i + 1).join("/");
+      let child = node.children.find((c) => c.path === childPath);
+      if (!child) {
+        child = createNode(childPath, part);
+        node.children.push(child);
+      }
+      node.totalTrackCount += count;
+      node = child;
+    });
+
+    node.trackCount += count;
+    node.totalTrackCount += count;
+  });
+
+  const sortChildren = (node: FolderNode) => {
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.children.forEach(sortChildren);
+  };
+  sortChildren(root);
+
+  return root;
+}
+
+export function findFolder(root: FolderNode, path: string): FolderNode | null {
+  if (root.path === path) {
+    return root;
+  }
+  for (const child of root.children) {
+    if (path === child.path || path.startsWith(`${child.path}/`)) {
+      return findFolder(child, path);
+    }
+  }
+  return null;
+}
+
+// Nodes from the root down to (and including) the folder at the given path
+export function folderBreadcrumbs(root: FolderNode, path: string): FolderNode[] {
+  const trail: FolderNode[] = [root];
+  let node = root;
+  while (node.path !== path) {
+    const next = node.children.find((child) => path === child.path || path.startsWith(`${child.path}/`));
+    if (!next) {
+      break;
+    }
+    trail.push(next);
+    node = next;
+  }
+  return trail;
+}
+
+// Folders that directly hold tracks, which is what the library statistics count
+export const countFolders = (tracks: Track[]) =>
+  new Set(tracks.map((track) => track.folderPath || UNKNOWN_FOLDER)).size;
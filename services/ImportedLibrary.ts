@@ -0,0 +1,203 @@
+import { Track } from "@/services/AudioService";
+import { ByteSource, bytesSource } from "@/services/Binary";
+import { safeFileName } from "@/services/ExportFile";
+import { fileSource, writeFileBytes } from "@/services/FileBytes";
+import { readJson, writeJson } from "@/services/JsonStore";
+import { readTrackTags, untaggedTrack } from "@/services/LibraryService";
+import { createId } from "@/services/PlaylistService";
+import * as FileSystem from "expo-file-system";
+
+export interface PickedFile {
+  uri: string;
+  name: string;
+}
+
+export interface ImportResult {
+  imported: Track[];
+  duplicates: string[];
+  failed: string[];
+}
+
+interface ImportedEntry {
+  track: Track;
+  fingerprint: string;
+  importedAt: number;
+}
+
+interface ImportedFile {
+  version: number;
+  entries: ImportedEntry[];
+}
+
+const STORE_NAME = "imported-tracks";
+const STORE_VERSION = 1;
+
+const LIBRARY_DIRECTORY = `${FileSystem.documentDirectory}library/`;
+
+// Folder shown in the folder browser for every imported file
+export const MANUALLY_ADDED_FOLDER = "Manually Added";
+
+// Folder for clips exported from the clip editor
+export const CLIPS_FOLDER = "Clips";
+
+// Bytes hashed from each end of a file; together with the size that tells copies apart without reading it all
+const FINGERPRINT_BYTES = 64 * 1024;
+
+const fnv1a = (bytes: Uint8Array, hash = 0x811c9dc5) => {
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+async function fingerprint(source: ByteSource): Promise<string> {
+  const head = await source.read(0, Math.min(FINGERPRINT_BYTES, source.size));
+  const tailStart = Math.max(0, source.size - FINGERPRINT_BYTES);
+  const tail = await source.read(tailStart, source.size - tailStart);
+  return `${source.size}-${fnv1a(tail, fnv1a(head)).toString(16)}`;
+}
+
+const libraryUri = (id: string, fileName: string) =>
+  `${LIBRARY_DIRECTORY}${id}-${encodeURIComponent(safeFileName(fileName))}`;
+
+// The document picker copies each file into the cache; that copy is not needed once the file was handled
+const discardPickerCopy = async (uri: string) => {
+  if (FileSystem.cacheDirectory && uri.startsWith(FileSystem.cacheDirectory)) {
+    await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => undefined);
+  }
+};
+
+class ImportedLibrary {
+  private entries: ImportedEntry[] = [];
+  private listeners: ((tracks: Track[]) => void)[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = readJson<ImportedFile>(STORE_NAME, { version: STORE_VERSION, entries: [] }).then((file) => {
+        this.entries = Array.isArray(file.entries) ? file.entries : [];
+        this.notifyListeners();
+      });
+    }
+    return this.loaded;
+  }
+
+  subscribe(listener: (tracks: Track[]) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getTracks(): Track[] {
+    return this.entries.map((entry) => entry.track);
+  }
+
+  private notifyListeners() {
+    const tracks = this.getTracks();
+    this.listeners.forEach((listener) => listener(tracks));
+  }
+
+  private async commit(entries: ImportedEntry[]) {
+    this.entries = entries;
+    this.notifyListeners();
+    await writeJson(STORE_NAME, { version: STORE_VERSION, entries });
+  }
+
+  // Copies picked files into the app's own library folder; files already imported are skipped
+  async importFiles(files: PickedFile[]): Promise<ImportResult> {
+    await this.load();
+    await FileSystem.makeDirectoryAsync(LIBRARY_DIRECTORY, { intermediates: true }).catch(() => undefined);
+
+    const fingerprints = new Set(this.entries.map((entry) => entry.fingerprint));
+    const added: ImportedEntry[] = [];
+    const result: ImportResult = { imported: [], duplicates: [], failed: [] };
+
+    for (const file of files) {
+      try {
+        const hash = await fingerprint(await fileSource(file.uri));
+        if (fingerprints.has(hash)) {
+          result.duplicates.push(file.name);
+          continue;
+        }
+
+        const id = createId();
+        const importedAt = Date.now();
+        const uri = libraryUri(id, file.name);
+        await FileSystem.copyAsync({ from: file.uri, to: uri });
+
+        const track = await readTrackTags(
+          untaggedTrack({
+            id: `imported:${id}`,
+            uri,
+            fileName: file.name,
+            folderPath: MANUALLY_ADDED_FOLDER,
+            dateAdded: importedAt,
+            source: "imported",
+          })
+        );
+        fingerprints.add(hash);
+        added.push({ track, fingerprint: hash, importedAt });
+        result.imported.push(track);
+      } catch (error) {
+        console.error(`Error importing ${file.name}:`, error);
+        result.failed.push(file.name);
+      } finally {
+        await discardPickerCopy(file.uri);
+      }
+    }
+
+    if (added.length > 0) {
+      await this.commit([...this.entries, ...added]);
+    }
+    return result;
+  }
+
+  // Saves an exported clip into the library folder; exporting the same selection again returns the earlier clip
+  async addClip(bytes: Uint8Array, fileName: string, details: Pick<Track, "title" | "artist" | "album">) {
+    await this.load();
+    const hash = await fingerprint(bytesSource(bytes));
+    const existing = this.entries.find((entry) => entry.fingerprint === hash);
+    if (existing) {
+      return existing.track;
+    }
+
+    await FileSystem.makeDirectoryAsync(LIBRARY_DIRECTORY, { intermediates: true }).catch(() => undefined);
+    const id = createId();
+    const importedAt = Date.now();
+    const uri = libraryUri(id, fileName);
+    await writeFileBytes(uri, bytes);
+
+    const tagged = await readTrackTags(
+      untaggedTrack({
+        id: `imported:${id}`,
+        uri,
+        fileName,
+        folderPath: CLIPS_FOLDER,
+        dateAdded: importedAt,
+        source: "imported",
+      })
+    );
+    const track = { ...tagged, ...details };
+    await this.commit([...this.entries, { track, fingerprint: hash, importedAt }]);
+    return track;
+  }
+
+  // Keeps an imported track current after its tags were rewritten in place
+  async updateTrack(track: Track) {
+    await this.load();
+    await this.commit(this.entries.map((entry) => (entry.track.id === track.id ? { ...entry, track } : entry)));
+  }
+
+  // Removes the files added in Settings; clips exported from the clip editor share the folder and are kept
+  async clear() {
+    await this.load();
+    const isClip = (entry: ImportedEntry) => entry.track.folderPath === CLIPS_FOLDER;
+    const removed = this.entries.filter((entry) => !isClip(entry));
+    await Promise.all(removed.map((entry) => FileSystem.deleteAsync(entry.track.uri, { idempotent: true })));
+    await this.commit(this.entries.filter(isClip));
+  }
+}
+
+export const importedLibrary = new ImportedLibrary();
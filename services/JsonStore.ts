@@ -0,0 +1,32 @@
+import * as FileSystem from "expo-file-system";
+
+const storeUri = (name: string) => `${FileSystem.documentDirectory}${name}.json`;
+
+// Writes are chained per file so a slow write can never land after a newer one
+const pendingWrites = new Map<string, Promise<void>>();
+
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const uri = storeUri(name);
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) {
+      return fallback;
+    }
+
+    const contents = await FileSystem.readAsStringAsync(uri);
+    return JSON.parse(contents) as T;
+  } catch (error) {
+    console.error(`Error reading ${name}:`, error);
+    return fallback;
+  }
+}
+
+export function writeJson(name: string, data: unknown): Promise<void> {
+  const previous = pendingWrites.get(name) ?? Promise.resolve();
+  const write = previous
+    .then(() => FileSystem.writeAsStringAsync(storeUri(name), JSON.stringify(data)))
+    .catch((error) => console.error(`Error writing ${name}:`, error));
+
+  pendingWrites.set(name, write);
+  return write;
+}
@@ -0,0 +1,50 @@
+import { Track } from "@/services/AudioService";
+import { readJson, writeJson } from "@/services/JsonStore";
+
+export interface IndexEntry {
+  track: Track;
+  // Asset modification time when the track was scanned; a newer one means the tags are read again
+  modificationTime: number;
+}
+
+interface LibraryIndexFile {
+  version: number;
+  entries: IndexEntry[];
+}
+
+const STORE_NAME = "library-index";
+const STORE_VERSION = 2;
+
+// Upgrades a file written by an older version one step at a time. An index without a migration
+// to the current version is dropped, which only costs a full rescan.
+const MIGRATIONS: Record<number, (file: LibraryIndexFile) => LibraryIndexFile> = {
+  // Version 2 added Track.dateAdded, which only a fresh read of each asset can fill in
+  1: (file) => ({
+    version: 2,
+    entries: file.entries.map((entry) => ({ ...entry, modificationTime: 0 })),
+  }),
+};
+
+const migrate = (file: LibraryIndexFile): LibraryIndexFile | null => {
+  let current = file;
+  while (current.version < STORE_VERSION) {
+    const migration = MIGRATIONS[current.version];
+    if (!migration) {
+      return null;
+    }
+    current = migration(current);
+  }
+  return current.version === STORE_VERSION ? current : null;
+};
+
+export async function readLibraryIndex(): Promise<IndexEntry[]> {
+  const file = await readJson<LibraryIndexFile | null>(STORE_NAME, null);
+  if (!file || typeof file.version !== "number" || !Array.isArray(file.entries)) {
+    return [];
+  }
+  return migrate(file)?.entries ?? [];
+}
+
+export function writeLibraryIndex(entries: IndexEntry[]) {
+  return writeJson(STORE_NAME, { version: STORE_VERSION, entries });
+}
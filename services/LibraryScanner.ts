@@ -0,0 +1,254 @@
+import { Track } from "@/services/AudioService";
+import { IndexEntry, readLibraryIndex, writeLibraryIndex } from "@/services/LibraryIndex";
+import {
+  assetToTrack,
+  forEachWithConcurrency,
+  getAudioAssetPage,
+  loadAlbumTitles,
+  SCAN_CONCURRENCY,
+} from "@/services/LibraryService";
+
+export type ScanStatus = "idle" | "scanning" | "cancelled" | "done" | "error";
+
+export interface ScanChanges {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+export interface ScanState {
+  status: ScanStatus;
+  tracks: Track[];
+  scannedCount: number;
+  totalCount: number;
+  changes: ScanChanges;
+}
+
+// Tracks are handed to listeners in batches so a big library does not re-render the list per file
+const PUBLISH_BATCH_SIZE = 25;
+
+const noChanges = (): ScanChanges => ({ added: 0, updated: 0, removed: 0 });
+
+class LibraryScanner {
+  private listeners: ((state: ScanState) => void)[] = [];
+  private state: ScanState = {
+    status: "idle",
+    tracks: [],
+    scannedCount: 0,
+    totalCount: 0,
+    changes: noChanges(),
+  };
+  private loaded: Promise<void> | null = null;
+  // What the index knew about each track, so unchanged assets skip the tag read
+  private indexed = new Map<string, IndexEntry>();
+  private modificationTimes = new Map<string, number>();
+  // End cursor of the last page that was scanned completely; a resumed scan continues after it
+  private cursor: string | undefined;
+  private scannedIds = new Set<string>();
+  private pending: Track[] = [];
+  private changes = noChanges();
+  // Bumped on every start/cancel so work from an abandoned scan is ignored
+  private runId = 0;
+
+  subscribe(listener: (state: ScanState) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getState(): ScanState {
+    return { ...this.state };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener({ ...this.state }));
+  }
+
+  private updateState(updates: Partial<ScanState>) {
+    this.state = { ...this.state, ...updates };
+    this.notifyListeners();
+  }
+
+  // Shows the tracks from the last scan straight away; a rescan then only reads what changed
+  load() {
+    if (!this.loaded) {
+      this.loaded = readLibraryIndex().then((entries) => {
+        entries.forEach((entry) => {
+          this.indexed.set(entry.track.id, entry);
+          this.modificationTimes.set(entry.track.id, entry.modificationTime);
+        });
+        if (this.state.tracks.length === 0) {
+          this.updateState({ tracks: entries.map((entry) => entry.track) });
+        }
+      });
+    }
+    return this.loaded;
+  }
+
+  async start() {
+    await this.load();
+    this.runId++;
+    this.cursor = undefined;
+    this.scannedIds.clear();
+    this.pending = [];
+    this.changes = noChanges();
+    this.updateState({ scannedCount: 0, totalCount: 0, changes: noChanges() });
+    return this.run();
+  }
+
+  resume() {
+    if (this.state.status === "scanning") {
+      return Promise.resolve();
+    }
+    return this.run();
+  }
+
+  cancel() {
+    if (this.state.status === "scanning") {
+      this.runId++;
+      this.publish();
+      this.updateState({ status: "cancelled" });
+      this.saveIndex();
+    }
+  }
+
+  clear() {
+    this.runId++;
+    this.cursor = undefined;
+    this.indexed.clear();
+    this.modificationTimes.clear();
+    this.scannedIds.clear();
+    this.pending = [];
+    this.changes = noChanges();
+    this.updateState({ status: "idle", tracks: [], scannedCount: 0, totalCount: 0, changes: noChanges() });
+    this.saveIndex();
+  }
+
+  // Replaces the scanned list, e.g. after a track's tags were edited. Writing a file does not change the
+  // modification time the media library reports, so the index entry is updated too; otherwise the next scan
+  // would find the file unchanged and bring back the old tags.
+  setTracks(tracks: Track[]) {
+    tracks.forEach((track) => {
+      const known = this.indexed.get(track.id);
+      if (known && known.track !== track) {
+        this.indexed.set(track.id, { ...known, track });
+      }
+    });
+    this.updateState({ tracks });
+    this.saveIndex();
+  }
+
+  private saveIndex() {
+    return writeLibraryIndex(
+      this.state.tracks.map((track) => ({
+        track,
+        // 0 makes the next scan read a track whose modification time is unknown
+        modificationTime: this.modificationTimes.get(track.id) ?? 0,
+      }))
+    );
+  }
+
+  // Merges scanned tracks into the list, replacing tracks with the same id in place
+  private publish() {
+    const pending = new Map(this.pending.map((track) => [track.id, track]));
+    this.pending = [];
+
+    let tracks = this.state.tracks;
+    if (pending.size > 0) {
+      tracks = tracks.map((track) => {
+        const scanned = pending.get(track.id);
+        pending.delete(track.id);
+        return scanned ?? track;
+      });
+      tracks.push(...pending.values());
+    }
+    this.updateState({ tracks, scannedCount: this.scannedIds.size, changes: { ...this.changes } });
+  }
+
+  private async run() {
+    const runId = ++this.runId;
+    const isStale = () => runId !== this.runId;
+
+    try {
+      this.updateState({ status: "scanning" });
+      const albumTitles = await loadAlbumTitles();
+      let hasNextPage = true;
+
+      while (hasNextPage) {
+        const page = await getAudioAssetPage(this.cursor);
+        if (isStale()) {
+          return;
+        }
+        this.updateState({ totalCount: page.totalCount });
+
+        // A cancelled page is fetched again on resume, skipping the files it already got through
+        const assets = page.assets.filter((asset) => !this.scannedIds.has(asset.id));
+        await forEachWithConcurrency(
+          assets,
+          SCAN_CONCURRENCY,
+          async (asset) => {
+            const known = this.indexed.get(asset.id);
+            let track: Track | null = null;
+            if (known && known.modificationTime === asset.modificationTime) {
+              track = known.track;
+            } else {
+              try {
+                track = await assetToTrack(asset, albumTitles);
+              } catch (error) {
+                console.error(`Error scanning ${asset.filename}:`, error);
+              }
+            }
+            // Files still in flight when the scan was cancelled are scanned again on resume
+            if (isStale()) {
+              return;
+            }
+            this.scannedIds.add(asset.id);
+            if (track && track !== known?.track) {
+              this.changes[known ? "updated" : "added"]++;
+              this.modificationTimes.set(asset.id, asset.modificationTime);
+              this.indexed.set(asset.id, { track, modificationTime: asset.modificationTime });
+            }
+            if (track) {
+              this.pending.push(track);
+            }
+            if (this.pending.length >= PUBLISH_BATCH_SIZE) {
+              this.publish();
+            }
+          },
+          isStale
+        );
+        if (isStale()) {
+          return;
+        }
+
+        this.publish();
+        this.cursor = page.endCursor;
+        hasNextPage = page.hasNextPage;
+      }
+
+      // Only a walk that reached the end can tell which tracks are gone
+      const tracks = this.state.tracks.filter((track) => {
+        if (this.scannedIds.has(track.id)) {
+          return true;
+        }
+        this.indexed.delete(track.id);
+        this.modificationTimes.delete(track.id);
+        this.changes.removed++;
+        return false;
+      });
+
+      this.updateState({ status: "done", tracks, changes: { ...this.changes } });
+      await this.saveIndex();
+    } catch (error) {
+      console.error("Error scanning music library:", error);
+      if (!isStale()) {
+        this.publish();
+        this.updateState({ status: "error" });
+        this.saveIndex();
+      }
+    }
+  }
+}
+
+export const libraryScanner = new LibraryScanner();
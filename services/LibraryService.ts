@@ -0,0 +1,175 @@
+import { artworkService } from "@/services/ArtworkService";
+import { Track } from "@/services/AudioService";
+import { fileSource, readFileBytes, writeFileBytes } from "@/services/FileBytes";
+import { AudioTags, readTags } from "@/services/TagReader";
+import { Id3Version, TagEdits, writeTags } from "@/services/TagWriter";
+import * as FileSystem from "expo-file-system";
+import * as MediaLibrary from "expo-media-library";
+
+export type TagSaveMode = "replace" | "copy";
+
+// Tag values win over what the file name and media library can tell us
+export function applyTags(track: Track, tags: AudioTags): Track {
+  return {
+    ...track,
+    title: tags.title || track.title,
+    artist: tags.artist || track.artist,
+    album: tags.album || track.album,
+    albumArtist: tags.albumArtist,
+    trackNumber: tags.trackNumber,
+    trackTotal: tags.trackTotal,
+    discNumber: tags.discNumber,
+    discTotal: tags.discTotal,
+    year: tags.year,
+    genre: tags.genre,
+    duration: track.duration || tags.duration,
+  };
+}
+
+export async function readTrackTags(track: Track): Promise<Track> {
+  try {
+    const source = await fileSource(track.uri);
+    return applyTags(track, await readTags(source, track.fileName));
+  } catch (error) {
+    console.error(`Error reading tags for ${track.fileName}:`, error);
+    return track;
+  }
+}
+
+// Defaults for a file whose tags have not been read yet
+export const untaggedTrack = ({
+  id,
+  uri,
+  fileName,
+  duration,
+  folderPath,
+  dateAdded,
+  source,
+}: Pick<Track, "id" | "uri" | "fileName" | "duration" | "folderPath" | "dateAdded" | "source">): Track => ({
+  id,
+  title: fileName.replace(/\.[^/.]+$/, ""),
+  artist: "Unknown Artist",
+  uri,
+  fileName,
+  folderPath,
+  dateAdded,
+  duration,
+  album: "Unknown Album",
+  source,
+});
+
+export async function loadAlbumTitles(): Promise<Map<string, string>> {
+  try {
+    const albums = await MediaLibrary.getAlbumsAsync();
+    return new Map(albums.map((album) => [album.id, album.title]));
+  } catch (error) {
+    console.error("Error loading albums:", error);
+    return new Map();
+  }
+}
+
+// The directory holding the file when the URI is a real path, otherwise the media library
+// album (an Android bucket, which is itself named after the folder)
+export function assetFolderPath(asset: MediaLibrary.Asset, albumTitles: Map<string, string>, uri = asset.uri) {
+  if (uri.startsWith("file://")) {
+    let path = uri.slice("file://".length);
+    try {
+      path = decodeURIComponent(path);
+    } catch {
+      // Keep the raw path when it is not valid percent-encoding
+    }
+    return path.slice(0, path.lastIndexOf("/")) || "/";
+  }
+  return (asset.albumId && albumTitles.get(asset.albumId)) || undefined;
+}
+
+export const SCAN_PAGE_SIZE = 200;
+// getAssetInfoAsync and tag reads per asset in flight at once
+export const SCAN_CONCURRENCY = 4;
+
+export const getAudioAssetPage = (after?: string) =>
+  MediaLibrary.getAssetsAsync({
+    mediaType: MediaLibrary.MediaType.audio,
+    first: SCAN_PAGE_SIZE,
+    after,
+  });
+
+// Runs fn over items with at most `limit` calls pending; stops handing out items once shouldStop returns true
+export async function forEachWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+export const assetToTrack = async (asset: MediaLibrary.Asset, albumTitles: Map<string, string>): Promise<Track> => {
+  const assetInfo = await MediaLibrary.getAssetInfoAsync(asset);
+  const uri = assetInfo.localUri || assetInfo.uri;
+  return readTrackTags(
+    untaggedTrack({
+      id: asset.id,
+      uri,
+      fileName: asset.filename,
+      folderPath: assetFolderPath(asset, albumTitles, uri),
+      dateAdded: asset.creationTime,
+      duration: asset.duration * 1000, // Convert to milliseconds
+    })
+  );
+};
+
+// Only files in the app's own library can be overwritten; Android's scoped storage and the iOS media library
+// do not let the app write to files in the device library, so those are saved as a copy instead
+export const canReplaceFile = (track: Track) => track.source === "imported";
+
+// Writes edited tags back into the file, either over the original or as a new library asset
+export async function saveTrackTags(
+  track: Track,
+  edits: TagEdits,
+  mode: TagSaveMode,
+  id3Version: Id3Version = 3
+): Promise<Track> {
+  if (mode === "replace" && !canReplaceFile(track)) {
+    throw new Error(`${track.fileName} is in the device library, which cannot be overwritten. Save a copy instead.`);
+  }
+  const original = await readFileBytes(track.uri);
+  const updated = writeTags(original, track.fileName, edits, id3Version);
+
+  if (mode === "replace") {
+    try {
+      await writeFileBytes(track.uri, updated);
+    } catch (error) {
+      console.error(`Error writing ${track.uri}:`, error);
+      throw new Error(`Could not write the new tags to ${track.fileName}.`);
+    }
+    // The artwork cached for the old file may no longer match it
+    await artworkService.clear(track.id);
+    return readTrackTags(untaggedTrack(track));
+  }
+
+  const extension = track.fileName.match(/\.[^/.]+$/)?.[0] || "";
+  const baseName = track.fileName.slice(0, track.fileName.length - extension.length);
+  const tempUri = `${FileSystem.cacheDirectory}${encodeURIComponent(`${baseName} (edited)${extension}`)}`;
+
+  await writeFileBytes(tempUri, updated);
+  try {
+    let asset: MediaLibrary.Asset;
+    try {
+      asset = await MediaLibrary.createAssetAsync(tempUri);
+    } catch (error) {
+      console.error(`Error adding ${tempUri} to the media library:`, error);
+      throw new Error("Could not add the copy to the device library. Check that the app may access your music.");
+    }
+    return assetToTrack(asset, await loadAlbumTitles());
+  } finally {
+    await FileSystem.deleteAsync(tempUri, { idempotent: true });
+  }
+}
@@ -0,0 +1,188 @@
+import { Track } from "@/services/AudioService";
+import { fileSource } from "@/services/FileBytes";
+import { buildFolderTree, countFolders, FolderNode } from "@/services/FolderTree";
+import { ImportResult, importedLibrary, PickedFile } from "@/services/ImportedLibrary";
+import { libraryScanner, ScanChanges, ScanState, ScanStatus } from "@/services/LibraryScanner";
+import { TagSaveMode } from "@/services/LibraryService";
+import { extractWavClip, readWavInfo } from "@/services/WavFile";
+import * as MediaLibrary from "expo-media-library";
+
+export interface LibraryState {
+  // Scanned device tracks followed by manually added ones
+  tracks: Track[];
+  importedCount: number;
+  folderTree: FolderNode;
+  folderCount: number;
+  permission: MediaLibrary.PermissionResponse | null;
+  scanStatus: ScanStatus;
+  scannedCount: number;
+  totalCount: number;
+  changes: ScanChanges;
+  error: string | null;
+}
+
+// "1m05.250s"-style positions, safe to use in file names
+const formatClipTime = (milliseconds: number) => {
+  const minutes = Math.floor(milliseconds / 60000);
+  const seconds = ((milliseconds % 60000) / 1000).toFixed(3).padStart(6, "0");
+  return `${minutes}m${seconds}s`;
+};
+
+// One place both tabs read the library from, combining the device scan with imported files
+class LibraryStore {
+  private listeners: ((state: LibraryState) => void)[] = [];
+  private scan: ScanState = libraryScanner.getState();
+  private imported: Track[] = importedLibrary.getTracks();
+  private state: LibraryState = {
+    tracks: [],
+    importedCount: 0,
+    folderTree: buildFolderTree([]),
+    folderCount: 0,
+    permission: null,
+    scanStatus: "idle",
+    scannedCount: 0,
+    totalCount: 0,
+    changes: { added: 0, updated: 0, removed: 0 },
+    error: null,
+  };
+  private loaded: Promise<void> | null = null;
+  private scanning: Promise<void> | null = null;
+
+  constructor() {
+    libraryScanner.subscribe((scan) => {
+      const tracksChanged = scan.tracks !== this.scan.tracks;
+      this.scan = scan;
+      this.updateState(
+        {
+          scanStatus: scan.status,
+          scannedCount: scan.scannedCount,
+          totalCount: scan.totalCount,
+          changes: scan.changes,
+          error: scan.status === "error" ? "The library scan stopped after an error" : this.state.error,
+        },
+        tracksChanged
+      );
+    });
+    importedLibrary.subscribe((tracks) => {
+      this.imported = tracks;
+      this.updateState({}, true);
+    });
+    this.updateState({}, true);
+  }
+
+  subscribe(listener: (state: LibraryState) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getState(): LibraryState {
+    return { ...this.state };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener({ ...this.state }));
+  }
+
+  private updateState(updates: Partial<LibraryState>, tracksChanged = false) {
+    this.state = { ...this.state, ...updates };
+    if (tracksChanged) {
+      const tracks = [...this.scan.tracks, ...this.imported];
+      this.state.tracks = tracks;
+      this.state.importedCount = this.imported.length;
+      this.state.folderTree = buildFolderTree(tracks);
+      this.state.folderCount = countFolders(tracks);
+    }
+    this.notifyListeners();
+  }
+
+  // Shows the indexed and imported tracks, then rescans the device in the background
+  load() {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await Promise.all([libraryScanner.load(), importedLibrary.load()]);
+        const permission = await MediaLibrary.getPermissionsAsync();
+        this.updateState({ permission });
+        if (permission.granted && libraryScanner.getState().status === "idle") {
+          this.refresh();
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  async requestPermission() {
+    const permission = await MediaLibrary.requestPermissionsAsync();
+    this.updateState({ permission });
+    if (permission.granted) {
+      this.refresh();
+    }
+    return permission;
+  }
+
+  refresh() {
+    this.updateState({ error: null });
+    this.scanning = libraryScanner.start();
+    return this.scanning;
+  }
+
+  cancelScan() {
+    libraryScanner.cancel();
+  }
+
+  resumeScan() {
+    this.updateState({ error: null });
+    this.scanning = libraryScanner.resume();
+    return this.scanning;
+  }
+
+  // Resolves once the running scan, if any, has finished
+  async whenScanned() {
+    await this.load();
+    await this.scanning;
+    return this.getState();
+  }
+
+  async importFiles(files: PickedFile[]): Promise<ImportResult> {
+    const result = await importedLibrary.importFiles(files);
+    this.updateState({
+      error: result.failed.length > 0 ? `Could not import ${result.failed.length} files` : this.state.error,
+    });
+    return result;
+  }
+
+  // Cuts the selection out of a WAV track and adds it to the library as a new file
+  async exportClip(track: Track, start: number, end: number): Promise<Track> {
+    const source = await fileSource(track.uri);
+    const clip = await extractWavClip(source, await readWavInfo(source), start, end);
+    const baseName = track.fileName.replace(/\.[^/.]+$/, "");
+    const range = `${formatClipTime(start)}-${formatClipTime(end)}`;
+    return importedLibrary.addClip(clip, `${baseName} (${range}).wav`, {
+      title: `${track.title} (${range})`,
+      artist: track.artist,
+      album: track.album,
+    });
+  }
+
+  clearImported() {
+    return importedLibrary.clear();
+  }
+
+  clearScanned() {
+    libraryScanner.clear();
+  }
+
+  // Puts a track with rewritten tags back where it came from
+  async saveEditedTrack(saved: Track, mode: TagSaveMode) {
+    // Only imported files can be overwritten
+    if (mode === "replace") {
+      await importedLibrary.updateTrack(saved);
+      return;
+    }
+    // Copies are created in the device media library, so they join the scanned tracks
+    libraryScanner.setTracks([...this.scan.tracks, saved]);
+  }
+}
+
+export const libraryStore = new LibraryStore();
@@ -0,0 +1,52 @@
+import { readJson, writeJson } from "@/services/JsonStore";
+
+// An A–B region in milliseconds; until B is set only A is marked and nothing loops
+export interface LoopRegion {
+  start: number;
+  end: number | null;
+  // Playback jumps back this far before A, so the passage is heard with a lead-in
+  preRoll: number;
+}
+
+interface LoopRegionsFile {
+  version: number;
+  loops: Record<string, LoopRegion>;
+}
+
+const STORE_NAME = "loop-regions";
+const STORE_VERSION = 1;
+
+export const PRE_ROLL_OPTIONS = [0, 1000, 2000, 3000];
+
+// Loop regions saved with their tracks, so they come back the next time the track is loaded
+class LoopRegions {
+  private loops: Record<string, LoopRegion> = {};
+  private loaded: Promise<void> | null = null;
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = readJson<LoopRegionsFile>(STORE_NAME, { version: STORE_VERSION, loops: {} }).then((file) => {
+        this.loops = { ...file.loops, ...this.loops };
+      });
+    }
+    return this.loaded;
+  }
+
+  get(trackId: string): LoopRegion | null {
+    return this.loops[trackId] ?? null;
+  }
+
+  async save(trackId: string, loop: LoopRegion | null) {
+    await this.load();
+    const loops = { ...this.loops };
+    if (loop) {
+      loops[trackId] = loop;
+    } else {
+      delete loops[trackId];
+    }
+    this.loops = loops;
+    await writeJson(STORE_NAME, { version: STORE_VERSION, loops });
+  }
+}
+
+export const loopRegions = new LoopRegions();
@@ -0,0 +1,180 @@
+import { audioService } from "@/services/AppAudio";
+import { artworkService } from "@/services/ArtworkService";
+import { AudioState, Track } from "@/services/AudioService";
+import TrackPlayer, {
+  AppKilledPlaybackBehavior,
+  Capability,
+  Event,
+  NowPlayingMetadata,
+} from "react-native-track-player";
+
+// The lock screen keeps the clock running between updates, so the position is only re-sent now and then
+const POSITION_SYNC_INTERVAL = 5000;
+// Position differences larger than this since the last update mean the user seeked
+const SEEK_TOLERANCE = 2000;
+// Seconds skipped by the jump buttons
+const JUMP_INTERVAL = 15;
+
+// AudioService's backend does the playing; TrackPlayer only carries the media session, i.e. the lock-screen and
+// notification controls and headset buttons. Its own player is muted and follows AudioService's play/pause
+// state, so the lock screen shows the right button and remote play and pause mean what they say.
+class MediaSession {
+  private ready: Promise<boolean> | null = null;
+  // States are published one at a time; ones arriving meanwhile collapse into the latest
+  private pending: AudioState | null = null;
+  private publishing: Promise<void> | null = null;
+  private track: Track | null = null;
+  private metadata: NowPlayingMetadata = {};
+  private isPlaying = false;
+  // Player position at the last update, and when it was sent
+  private syncedPosition = 0;
+  private syncedAt = 0;
+
+  start() {
+    if (!this.ready) {
+      this.ready = this.setup();
+      this.ready.then((ready) => {
+        if (ready) {
+          audioService.subscribe((state) => this.schedulePublish(state));
+          this.schedulePublish(audioService.getState());
+        }
+      });
+    }
+    return this.ready;
+  }
+
+  private async setup() {
+    try {
+      await TrackPlayer.setupPlayer();
+      await TrackPlayer.updateOptions({
+        capabilities: [
+          Capability.Play,
+          Capability.Pause,
+          Capability.Stop,
+          Capability.SkipToNext,
+          Capability.SkipToPrevious,
+          Capability.SeekTo,
+          Capability.JumpForward,
+          Capability.JumpBackward,
+        ],
+        compactCapabilities: [Capability.SkipToPrevious, Capability.Play, Capability.SkipToNext],
+        forwardJumpInterval: JUMP_INTERVAL,
+        backwardJumpInterval: JUMP_INTERVAL,
+        android: {
+          appKilledPlaybackBehavior: AppKilledPlaybackBehavior.StopPlaybackAndRemoveNotification,
+        },
+      });
+      await TrackPlayer.setVolume(0);
+      return true;
+    } catch (error) {
+      console.error("Error setting up media session:", error);
+      return false;
+    }
+  }
+
+  private schedulePublish(state: AudioState) {
+    this.pending = state;
+    if (!this.publishing) {
+      this.publishing = this.publishPending();
+    }
+  }
+
+  private async publishPending() {
+    while (this.pending) {
+      const state = this.pending;
+      this.pending = null;
+      await this.publish(state);
+    }
+    this.publishing = null;
+  }
+
+  private async publish(state: AudioState) {
+    const { currentTrack, isPlaying, position, duration } = state;
+    try {
+      if (!currentTrack) {
+        if (this.track) {
+          this.track = null;
+          this.isPlaying = false;
+          await TrackPlayer.reset();
+        }
+        return;
+      }
+
+      // Also catches tag edits, which replace the track object
+      if (currentTrack !== this.track) {
+        const isNewTrack = currentTrack.id !== this.track?.id;
+        this.track = currentTrack;
+        await this.loadTrack(currentTrack, duration, isNewTrack);
+        // Loading may keep or drop the player's play state, so it is set again either way
+        await this.sync(state, true);
+        return;
+      }
+
+      const expected = this.syncedPosition + (this.isPlaying ? Date.now() - this.syncedAt : 0);
+      if (
+        isPlaying !== this.isPlaying ||
+        Math.abs(position - expected) > SEEK_TOLERANCE ||
+        (isPlaying && Date.now() - this.syncedAt >= POSITION_SYNC_INTERVAL)
+      ) {
+        await this.sync(state);
+      }
+    } catch (error) {
+      console.error("Error updating media session:", error);
+    }
+  }
+
+  private async loadTrack(track: Track, duration: number, isNewTrack: boolean) {
+    this.metadata = {
+      title: track.title,
+      artist: track.artist,
+      album: track.album,
+      genre: track.genre,
+      duration: (duration || track.duration || 0) / 1000,
+      artwork: artworkService.getCachedUri(track.id) ?? undefined,
+    };
+    if (isNewTrack) {
+      await TrackPlayer.load({ url: track.uri, ...this.metadata });
+    }
+
+    const artwork = await artworkService.getArtworkUri(track);
+    if (artwork && this.track === track) {
+      this.metadata = { ...this.metadata, artwork };
+    }
+  }
+
+  // The muted player is kept at AudioService's position, speed and play state, since the lock screen follows it
+  private async sync({ isPlaying, position, duration, rate }: AudioState, setPlayState = false) {
+    const wasPlaying = this.isPlaying;
+    this.isPlaying = isPlaying;
+    this.syncedPosition = position;
+    this.syncedAt = Date.now();
+    if (duration > 0) {
+      this.metadata = { ...this.metadata, duration: duration / 1000 };
+    }
+    await TrackPlayer.seekTo(position / 1000);
+    await TrackPlayer.setRate(rate);
+    if (isPlaying !== wasPlaying || setPlayState) {
+      await (isPlaying ? TrackPlayer.play() : TrackPlayer.pause());
+    }
+    await TrackPlayer.updateNowPlayingMetadata({ ...this.metadata, elapsedTime: position / 1000 });
+  }
+}
+
+export const mediaSession = new MediaSession();
+
+const jumpBy = (seconds: number) => {
+  const { position, duration } = audioService.getState();
+  audioService.seek(Math.min(duration, Math.max(0, position + seconds * 1000)));
+};
+
+// Registered at startup with TrackPlayer.registerPlaybackService, so remote controls work in the background
+export async function playbackService() {
+  TrackPlayer.addEventListener(Event.RemotePlay, () => audioService.play());
+  TrackPlayer.addEventListener(Event.RemotePause, () => audioService.pause());
+  TrackPlayer.addEventListener(Event.RemoteStop, () => audioService.stop());
+  TrackPlayer.addEventListener(Event.RemoteNext, () => audioService.next());
+  TrackPlayer.addEventListener(Event.RemotePrevious, () => audioService.previous());
+  TrackPlayer.addEventListener(Event.RemoteSeek, ({ position }) => audioService.seek(position * 1000));
+  TrackPlayer.addEventListener(Event.RemoteJumpForward, ({ interval }) => jumpBy(interval));
+  TrackPlayer.addEventListener(Event.RemoteJumpBackward, ({ interval }) => jumpBy(-interval));
+}
@@ -0,0 +1,50 @@
+import { readJson, writeJson } from "@/services/JsonStore";
+
+interface PlayStatsFile {
+  version: number;
+  playCounts: Record<string, number>;
+}
+
+const STORE_NAME = "play-stats";
+const STORE_VERSION = 1;
+
+// How often each track was played to the end, for sorting by play count
+class PlayStats {
+  private playCounts: Record<string, number> = {};
+  private listeners: ((playCounts: Record<string, number>) => void)[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = readJson<PlayStatsFile>(STORE_NAME, { version: STORE_VERSION, playCounts: {} }).then((file) => {
+        this.playCounts = { ...file.playCounts, ...this.playCounts };
+        this.notifyListeners();
+      });
+    }
+    return this.loaded;
+  }
+
+  subscribe(listener: (playCounts: Record<string, number>) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getPlayCounts(): Record<string, number> {
+    return this.playCounts;
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener(this.playCounts));
+  }
+
+  async recordPlay(trackId: string) {
+    await this.load();
+    this.playCounts = { ...this.playCounts, [trackId]: (this.playCounts[trackId] || 0) + 1 };
+    this.notifyListeners();
+    await writeJson(STORE_NAME, { version: STORE_VERSION, playCounts: this.playCounts });
+  }
+}
+
+export const playStats = new PlayStats();
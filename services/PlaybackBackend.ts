@@ -0,0 +1,62 @@
+// What AudioService needs from an audio engine. Positions and durations are in milliseconds,
+// volumes from 0 to 1. Keeping the engine behind this lets the queue, fade and timer logic run
+// against expo-av, expo-audio or the fake backend alike.
+
+export interface PlaybackStatus {
+  isPlaying: boolean;
+  position: number;
+  duration: number;
+  // True for the one update sent when playback reaches the end
+  didJustFinish: boolean;
+}
+
+export interface LoadOptions {
+  shouldPlay: boolean;
+  volume: number;
+  rate?: number;
+  pitchCorrection?: boolean;
+}
+
+export interface PlaybackSound {
+  // Rejects if the file cannot be opened
+  load(uri: string, options: LoadOptions): Promise<void>;
+  play(): Promise<void>;
+  pause(): Promise<void>;
+  // Pauses and goes back to the start
+  stop(): Promise<void>;
+  replay(): Promise<void>;
+  seek(position: number): Promise<void>;
+  setVolume(volume: number): Promise<void>;
+  setRate(rate: number, pitchCorrection: boolean): Promise<void>;
+  // How often status updates arrive while playing
+  setUpdateInterval(interval: number): Promise<void>;
+  // Status updates are only sent once the sound is loaded; null stops them
+  onStatus(listener: ((status: PlaybackStatus) => void) | null): void;
+  unload(): Promise<void>;
+}
+
+// Time source for fades and timers; each scheduling call returns a function that cancels it
+export interface PlaybackClock {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): () => void;
+  setInterval(callback: () => void, interval: number): () => void;
+}
+
+export interface PlaybackBackend {
+  clock: PlaybackClock;
+  // Audio session setup, e.g. background playback; called once before anything is loaded
+  setup(): Promise<void>;
+  createSound(): PlaybackSound;
+}
+
+export const systemClock: PlaybackClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => {
+    const timeout = setTimeout(callback, delay);
+    return () => clearTimeout(timeout);
+  },
+  setInterval: (callback, interval) => {
+    const handle = setInterval(callback, interval);
+    return () => clearInterval(handle);
+  },
+};
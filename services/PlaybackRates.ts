@@ -0,0 +1,75 @@
+import { Track } from "@/services/AudioService";
+import { readJson, writeJson } from "@/services/JsonStore";
+
+export type RateScope = "track" | "folder";
+
+export interface RateSetting {
+  rate: number;
+  pitchCorrection: boolean;
+}
+
+interface PlaybackRatesFile {
+  version: number;
+  tracks: Record<string, RateSetting>;
+  folders: Record<string, RateSetting>;
+}
+
+const STORE_NAME = "playback-rates";
+const STORE_VERSION = 1;
+
+export const RATE_PRESETS = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+export const formatRate = (rate: number) => `${Number(rate.toFixed(2))}x`;
+
+// Speeds the user asked to keep for a track or for every track in a folder
+class PlaybackRates {
+  private tracks: Record<string, RateSetting> = {};
+  private folders: Record<string, RateSetting> = {};
+  private loaded: Promise<void> | null = null;
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = readJson<PlaybackRatesFile>(STORE_NAME, { version: STORE_VERSION, tracks: {}, folders: {} }).then(
+        (file) => {
+          this.tracks = { ...file.tracks, ...this.tracks };
+          this.folders = { ...file.folders, ...this.folders };
+        }
+      );
+    }
+    return this.loaded;
+  }
+
+  // A track's own setting wins over its folder's
+  resolve(track: Track): { setting: RateSetting; scope: RateScope } | null {
+    if (this.tracks[track.id]) {
+      return { setting: this.tracks[track.id], scope: "track" };
+    }
+    if (track.folderPath !== undefined && this.folders[track.folderPath]) {
+      return { setting: this.folders[track.folderPath], scope: "folder" };
+    }
+    return null;
+  }
+
+  // A null scope forgets the track's setting and its folder's
+  async remember(track: Track, scope: RateScope | null, setting: RateSetting) {
+    await this.load();
+    const tracks = { ...this.tracks };
+    delete tracks[track.id];
+    if (scope === "track") {
+      tracks[track.id] = setting;
+    }
+    this.tracks = tracks;
+
+    if (track.folderPath !== undefined && scope !== "track") {
+      const folders = { ...this.folders };
+      delete folders[track.folderPath];
+      if (scope === "folder") {
+        folders[track.folderPath] = setting;
+      }
+      this.folders = folders;
+    }
+    await writeJson(STORE_NAME, { version: STORE_VERSION, tracks: this.tracks, folders: this.folders });
+  }
+}
+
+export const playbackRates = new PlaybackRates();
@@ -0,0 +1,38 @@
+import { RepeatMode, Track } from "@/services/AudioService";
+import { readJson, writeJson } from "@/services/JsonStore";
+
+// What the player was doing when the app last went away. The queue is kept as track ids, since it can
+// hold the whole library; only the current track is stored in full.
+export interface PlaybackSession {
+  // Usually the queue's current item, but a track previewed outside the queue is restored too
+  track: Track;
+  position: number;
+  queue: string[];
+  // Queue order before shuffling
+  originalQueue: string[];
+  currentIndex: number;
+  volume: number;
+  repeatMode: RepeatMode;
+  isShuffled: boolean;
+}
+
+interface PlaybackSessionFile {
+  version: number;
+  session: PlaybackSession | null;
+}
+
+const STORE_NAME = "playback-session";
+const STORE_VERSION = 1;
+
+export async function readSession(): Promise<PlaybackSession | null> {
+  const file = await readJson<PlaybackSessionFile>(STORE_NAME, { version: STORE_VERSION, session: null });
+  const session = file.session;
+  if (!session?.track || !Array.isArray(session.queue) || !Array.isArray(session.originalQueue)) {
+    return null;
+  }
+  return session;
+}
+
+export function writeSession(session: PlaybackSession | null) {
+  return writeJson(STORE_NAME, { version: STORE_VERSION, session });
+}
@@ -0,0 +1,72 @@
+import { readJson, writeJson } from "@/services/JsonStore";
+
+// Durations in milliseconds; 0 turns a fade off
+export interface PlaybackSettings {
+  fadeIn: number;
+  fadeOut: number;
+  // Overlap between a track and the next one when the queue advances on its own
+  crossfade: number;
+}
+
+interface PlaybackSettingsFile {
+  version: number;
+  settings: PlaybackSettings;
+}
+
+const STORE_NAME = "playback-settings";
+const STORE_VERSION = 1;
+
+export const MAX_FADE = 5000;
+export const MAX_CROSSFADE = 12000;
+
+const DEFAULT_SETTINGS: PlaybackSettings = { fadeIn: 0, fadeOut: 0, crossfade: 0 };
+
+const clamp = (value: unknown, max: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(0, value)) : 0;
+
+class PlaybackSettingsStore {
+  private settings: PlaybackSettings = DEFAULT_SETTINGS;
+  private listeners: ((settings: PlaybackSettings) => void)[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = readJson<PlaybackSettingsFile>(STORE_NAME, {
+        version: STORE_VERSION,
+        settings: DEFAULT_SETTINGS,
+      }).then((file) => {
+        this.settings = {
+          fadeIn: clamp(file.settings?.fadeIn, MAX_FADE),
+          fadeOut: clamp(file.settings?.fadeOut, MAX_FADE),
+          crossfade: clamp(file.settings?.crossfade, MAX_CROSSFADE),
+        };
+        this.notifyListeners();
+      });
+    }
+    return this.loaded;
+  }
+
+  subscribe(listener: (settings: PlaybackSettings) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  get(): PlaybackSettings {
+    return this.settings;
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener(this.settings));
+  }
+
+  async update(updates: Partial<PlaybackSettings>) {
+    await this.load();
+    this.settings = { ...this.settings, ...updates };
+    this.notifyListeners();
+    await writeJson(STORE_NAME, { version: STORE_VERSION, settings: this.settings });
+  }
+}
+
+export const playbackSettings = new PlaybackSettingsStore();
@@ -0,0 +1,219 @@
+import { Track } from "@/services/AudioService";
+
+export type PlaylistFormat = "m3u" | "pls";
+
+export interface PlaylistEntry {
+  path: string;
+  title?: string;
+  artist?: string;
+  duration?: number; // milliseconds
+}
+
+export interface ResolvedEntries {
+  tracks: Track[];
+  unmatched: PlaylistEntry[];
+}
+
+const safeDecode = (path: string) => {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    // Keep the raw path when it is not valid percent-encoding
+    return path;
+  }
+};
+
+const normalizePath = (path: string) =>
+  safeDecode(path)
+    .replace(/^file:\/\//i, "")
+    .replace(/\\/g, "/")
+    .replace(/^(\.\/)+/, "")
+    .toLowerCase();
+
+const baseName = (path: string) => normalizePath(path).split("/").pop() || "";
+
+const stripExtension = (name: string) => name.replace(/\.[^/.]+$/, "");
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/\s+/g, " ");
+
+const parseSeconds = (value: string | undefined) => {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+};
+
+// "Artist - Title" is the de-facto convention for the display part of #EXTINF and PLS titles
+const splitDisplayTitle = (display: string): Pick<PlaylistEntry, "title" | "artist"> => {
+  const separator = display.indexOf(" - ");
+  if (separator === -1) {
+    return { title: display.trim() || undefined };
+  }
+  return {
+    artist: display.slice(0, separator).trim() || undefined,
+    title: display.slice(separator + 3).trim() || undefined,
+  };
+};
+
+const splitLines = (text: string) =>
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n|\r/)
+    .map((line) => line.trim());
+
+export function parseM3U(text: string): PlaylistEntry[] {
+  const entries: PlaylistEntry[] = [];
+  let pending: Omit<PlaylistEntry, "path"> = {};
+
+  splitLines(text).forEach((line) => {
+    if (!line) {
+      return;
+    }
+
+    if (line.startsWith("#EXTINF:")) {
+      // #EXTINF:<seconds>[ attributes],<display title>
+      const info = line.slice("#EXTINF:".length);
+      const comma = info.indexOf(",");
+      const durationPart = (comma === -1 ? info : info.slice(0, comma)).trim().split(/\s+/)[0];
+      const display = comma === -1 ? "" : info.slice(comma + 1);
+      pending = { duration: parseSeconds(durationPart), ...splitDisplayTitle(display) };
+      return;
+    }
+
+    if (line.startsWith("#")) {
+      return;
+    }
+
+    entries.push({ path: line, ...pending });
+    pending = {};
+  });
+
+  return entries;
+}
+
+export function parsePLS(text: string): PlaylistEntry[] {
+  const files = new Map<number, PlaylistEntry>();
+  const titles = new Map<number, string>();
+  const lengths = new Map<number, string>();
+
+  splitLines(text).forEach((line) => {
+    const match = line.match(/^(File|Title|Length)(\d+)\s*=\s*(.*)$/i);
+    if (!match) {
+      return;
+    }
+
+    const [, key, indexText, value] = match;
+    const index = Number(indexText);
+    switch (key.toLowerCase()) {
+      case "file":
+        files.set(index, { path: value });
+        break;
+      case "title":
+        titles.set(index, value);
+        break;
+      case "length":
+        lengths.set(index, value);
+        break;
+    }
+  });
+
+  return Array.from(files.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([index, entry]) => ({
+      ...entry,
+      ...(titles.has(index) ? splitDisplayTitle(titles.get(index)!) : {}),
+      duration: parseSeconds(lengths.get(index)),
+    }));
+}
+
+export function detectPlaylistFormat(fileName: string, text: string): PlaylistFormat {
+  if (/\.pls$/i.test(fileName) || /^\s*\[playlist\]/i.test(text.replace(/^\uFEFF/, ""))) {
+    return "pls";
+  }
+  return "m3u";
+}
+
+export function parsePlaylist(fileName: string, text: string): PlaylistEntry[] {
+  return detectPlaylistFormat(fileName, text) === "pls" ? parsePLS(text) : parseM3U(text);
+}
+
+// Entries are matched by relative path first, then by file name, then by title (and artist when present)
+export function resolveEntries(entries: PlaylistEntry[], library: Track[]): ResolvedEntries {
+  const byFileName = new Map<string, Track>();
+  const byTitle = new Map<string, Track[]>();
+  const paths = library.map((track) => ({ track, path: normalizePath(track.uri) }));
+
+  library.forEach((track) => {
+    const fileName = track.fileName.toLowerCase();
+    if (!byFileName.has(fileName)) {
+      byFileName.set(fileName, track);
+    }
+    const title = normalizeTitle(track.title);
+    byTitle.set(title, [...(byTitle.get(title) || []), track]);
+  });
+
+  const tracks: Track[] = [];
+  const unmatched: PlaylistEntry[] = [];
+
+  entries.forEach((entry) => {
+    const entryPath = normalizePath(entry.path);
+    const relative = entryPath.replace(/^([a-z]:)?\/+/, "");
+
+    let match =
+      paths.find(({ path }) => path === entryPath)?.track ||
+      (relative.includes("/") ? paths.find(({ path }) => path.endsWith(`/${relative}`))?.track : undefined) ||
+      byFileName.get(baseName(entry.path));
+
+    if (!match) {
+      const title = normalizeTitle(entry.title || stripExtension(baseName(entry.path)));
+      const candidates = byTitle.get(title) || [];
+      const artist = entry.artist ? normalizeTitle(entry.artist) : undefined;
+      match =
+        (artist && candidates.find((track) => track.artist && normalizeTitle(track.artist) === artist)) ||
+        candidates[0];
+    }
+
+    if (match) {
+      tracks.push(match);
+    } else {
+      unmatched.push(entry);
+    }
+  });
+
+  return { tracks, unmatched };
+}
+
+// Content URIs mean nothing to a desktop player, so those fall back to the bare file name
+const exportPath = (track: Track) =>
+  /^file:\/\//i.test(track.uri) ? safeDecode(track.uri.replace(/^file:\/\//i, "")) : track.fileName;
+
+// The placeholder given to tracks without an artist tag; it is left out rather than exported as a name
+const UNKNOWN_ARTIST = "Unknown Artist";
+
+const displayTitle = (track: Track) =>
+  track.artist && track.artist !== UNKNOWN_ARTIST ? `${track.artist} - ${track.title}` : track.title;
+
+const durationSeconds = (track: Track) => (track.duration ? Math.round(track.duration / 1000) : -1);
+
+export function serializeM3U(tracks: Track[]): string {
+  const lines = ["#EXTM3U"];
+  tracks.forEach((track) => {
+    lines.push(`#EXTINF:${durationSeconds(track)},${displayTitle(track)}`);
+    lines.push(exportPath(track));
+  });
+  return lines.join("\n") + "\n";
+}
+
+export function serializePLS(tracks: Track[]): string {
+  const lines = ["[playlist]"];
+  tracks.forEach((track, i) => {
+    lines.push(`File${i + 1}=${exportPath(track)}`);
+    lines.push(`Title${i + 1}=${displayTitle(track)}`);
+    lines.push(`Length${i + 1}=${durationSeconds(track)}`);
+  });
+  lines.push(`NumberOfEntries=${tracks.length}`);
+  lines.push("Version=2");
+  return lines.join("\n") + "\n";
+}
+
+export function serializePlaylist(format: PlaylistFormat, tracks: Track[]): string {
+  return format === "pls" ? serializePLS(tracks) : serializeM3U(tracks);
+}
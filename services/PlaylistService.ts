@@ -0,0 +1,216 @@
+import { Track } from "@/services/AudioService";
+import { safeFileName, saveExportFile } from "@/services/ExportFile";
+import { readJson, writeJson } from "@/services/JsonStore";
+import {
+  PlaylistEntry,
+  PlaylistFormat,
+  parsePlaylist,
+  resolveEntries,
+  serializePlaylist,
+} from "@/services/PlaylistFormats";
+import * as FileSystem from "expo-file-system";
+
+export interface Playlist {
+  id: string;
+  name: string;
+  trackIds: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PlaylistImportResult {
+  playlist: Playlist;
+  matchedCount: number;
+  unmatched: PlaylistEntry[];
+}
+
+export interface ResolvedPlaylist {
+  tracks: Track[];
+  missingTrackIds: string[];
+}
+
+interface PlaylistFile {
+  version: number;
+  playlists: Playlist[];
+}
+
+const STORE_NAME = "playlists";
+const STORE_VERSION = 1;
+
+const PLAYLIST_MIME_TYPES: Record<PlaylistFormat, string> = {
+  m3u: "audio/x-mpegurl",
+  pls: "audio/x-scpls",
+};
+
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Tracks removed from the device are kept in the playlist and reported as missing
+export function resolvePlaylist(playlist: Playlist, library: Track[]): ResolvedPlaylist {
+  const byId = new Map(library.map((track) => [track.id, track]));
+  const tracks: Track[] = [];
+  const missingTrackIds: string[] = [];
+
+  playlist.trackIds.forEach((id) => {
+    const track = byId.get(id);
+    if (track) {
+      tracks.push(track);
+    } else {
+      missingTrackIds.push(id);
+    }
+  });
+
+  return { tracks, missingTrackIds };
+}
+
+class PlaylistService {
+  private playlists: Playlist[] = [];
+  private listeners: ((playlists: Playlist[]) => void)[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = readJson<PlaylistFile>(STORE_NAME, { version: STORE_VERSION, playlists: [] }).then((file) => {
+        this.playlists = Array.isArray(file.playlists) ? file.playlists : [];
+        this.notifyListeners();
+      });
+    }
+    return this.loaded;
+  }
+
+  subscribe(listener: (playlists: Playlist[]) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener([...this.playlists]));
+  }
+
+  private async commit(playlists: Playlist[]) {
+    this.playlists = playlists;
+    this.notifyListeners();
+    await writeJson(STORE_NAME, { version: STORE_VERSION, playlists });
+  }
+
+  private async update(id: string, changes: (playlist: Playlist) => Partial<Playlist>) {
+    await this.load();
+    await this.commit(
+      this.playlists.map((playlist) =>
+        playlist.id === id ? { ...playlist, ...changes(playlist), updatedAt: Date.now() } : playlist
+      )
+    );
+  }
+
+  getPlaylists(): Playlist[] {
+    return [...this.playlists];
+  }
+
+  getPlaylist(id: string): Playlist | undefined {
+    return this.playlists.find((playlist) => playlist.id === id);
+  }
+
+  async create(name: string, trackIds: string[] = []): Promise<Playlist> {
+    await this.load();
+    const now = Date.now();
+    const playlist: Playlist = {
+      id: createId(),
+      name: name.trim() || "New Playlist",
+      trackIds: Array.from(new Set(trackIds)),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.commit([...this.playlists, playlist]);
+    return playlist;
+  }
+
+  async rename(id: string, name: string) {
+    if (!name.trim()) {
+      return;
+    }
+    await this.update(id, () => ({ name: name.trim() }));
+  }
+
+  async duplicate(id: string): Promise<Playlist | undefined> {
+    await this.load();
+    const source = this.getPlaylist(id);
+    if (!source) {
+      return undefined;
+    }
+    return this.create(`${source.name} (Copy)`, source.trackIds);
+  }
+
+  async remove(id: string) {
+    await this.load();
+    await this.commit(this.playlists.filter((playlist) => playlist.id !== id));
+  }
+
+  async movePlaylist(fromIndex: number, toIndex: number) {
+    await this.load();
+    if (fromIndex < 0 || fromIndex >= this.playlists.length || toIndex < 0 || toIndex >= this.playlists.length) {
+      return;
+    }
+    const reordered = [...this.playlists];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    await this.commit(reordered);
+  }
+
+  async addTracks(id: string, trackIds: string[]) {
+    await this.update(id, (playlist) => ({
+      trackIds: Array.from(new Set([...playlist.trackIds, ...trackIds])),
+    }));
+  }
+
+  async removeTrack(id: string, trackId: string) {
+    await this.update(id, (playlist) => ({
+      trackIds: playlist.trackIds.filter((t) => t !== trackId),
+    }));
+  }
+
+  async moveTrack(id: string, trackId: string, offset: number) {
+    await this.update(id, (playlist) => {
+      const trackIds = [...playlist.trackIds];
+      const fromIndex = trackIds.indexOf(trackId);
+      const toIndex = fromIndex + offset;
+      if (fromIndex === -1 || toIndex < 0 || toIndex >= trackIds.length) {
+        return {};
+      }
+      trackIds.splice(fromIndex, 1);
+      trackIds.splice(toIndex, 0, trackId);
+      return { trackIds };
+    });
+  }
+
+  async removeMissing(id: string, library: Track[]) {
+    const available = new Set(library.map((track) => track.id));
+    await this.update(id, (playlist) => ({
+      trackIds: playlist.trackIds.filter((trackId) => available.has(trackId)),
+    }));
+  }
+}
+
+export const playlistService = new PlaylistService();
+
+export async function importPlaylistFile(
+  fileUri: string,
+  fileName: string,
+  library: Track[]
+): Promise<PlaylistImportResult> {
+  const text = await FileSystem.readAsStringAsync(fileUri);
+  const entries = parsePlaylist(fileName, text);
+  const { tracks, unmatched } = resolveEntries(entries, library);
+  const playlist = await playlistService.create(
+    fileName.replace(/\.[^/.]+$/, "") || "Imported Playlist",
+    tracks.map((track) => track.id)
+  );
+
+  // Entries listing the same track more than once were merged into one
+  return { playlist, matchedCount: playlist.trackIds.length, unmatched };
+}
+
+export function exportPlaylistFile(name: string, format: PlaylistFormat, tracks: Track[]): Promise<string | null> {
+  const contents = serializePlaylist(format, tracks);
+  return saveExportFile(`${safeFileName(name)}.${format}`, contents, PLAYLIST_MIME_TYPES[format]);
+}
@@ -0,0 +1,98 @@
+import { readJson, writeJson } from "@/services/JsonStore";
+
+export interface ResumePosition {
+  position: number;
+  duration: number;
+  finished: boolean;
+}
+
+interface ResumePositionsFile {
+  version: number;
+  positions: Record<string, ResumePosition>;
+}
+
+const STORE_NAME = "resume-positions";
+const STORE_VERSION = 1;
+
+// Only files at least this long, like audiobooks and podcasts, remember where they were left
+export const RESUME_MIN_DURATION = 20 * 60000;
+// Positions this close to the start are not worth offering to resume from
+const RESUME_MIN_POSITION = 30000;
+// Reaching this close to the end counts as having finished the file
+const FINISHED_MARGIN = 60000;
+
+export const isLongTrack = (duration: number) => duration >= RESUME_MIN_DURATION;
+
+// Last positions in long files, kept until they are finished
+class ResumePositions {
+  private positions: Record<string, ResumePosition> = {};
+  private listeners: ((positions: Record<string, ResumePosition>) => void)[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = readJson<ResumePositionsFile>(STORE_NAME, { version: STORE_VERSION, positions: {} }).then(
+        (file) => {
+          this.positions = { ...file.positions, ...this.positions };
+          this.notifyListeners();
+        }
+      );
+    }
+    return this.loaded;
+  }
+
+  subscribe(listener: (positions: Record<string, ResumePosition>) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getPositions(): Record<string, ResumePosition> {
+    return this.positions;
+  }
+
+  // Where to offer resuming a track from, if anywhere
+  getResumePoint(trackId: string): number | null {
+    const saved = this.positions[trackId];
+    return saved && !saved.finished && saved.position >= RESUME_MIN_POSITION ? saved.position : null;
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener(this.positions));
+  }
+
+  // Kept in memory only; `save` writes everything recorded since
+  record(trackId: string, position: number, duration: number) {
+    if (!isLongTrack(duration)) {
+      return;
+    }
+    const saved = this.positions[trackId];
+    const finished = position >= duration - FINISHED_MARGIN;
+    // A finished file stays finished until it is listened to again from somewhere past the start
+    if (saved?.finished && !finished && position < RESUME_MIN_POSITION) {
+      return;
+    }
+    const changesMark = saved?.finished !== finished;
+    this.positions = { ...this.positions, [trackId]: { position: finished ? 0 : position, duration, finished } };
+    if (changesMark) {
+      this.notifyListeners();
+    }
+  }
+
+  async clear(trackId: string) {
+    await this.load();
+    const positions = { ...this.positions };
+    delete positions[trackId];
+    this.positions = positions;
+    this.notifyListeners();
+    await this.save();
+  }
+
+  async save() {
+    await this.load();
+    await writeJson(STORE_NAME, { version: STORE_VERSION, positions: this.positions });
+  }
+}
+
+export const resumePositions = new ResumePositions();
@@ -0,0 +1,433 @@
+import { Track } from "@/services/AudioService";
+
+export type SearchField = "title" | "artist" | "album" | "genre" | "folder" | "file";
+
+// [start, end) offsets into the original, un-normalized text
+export type Highlight = [number, number];
+
+export interface SearchResult {
+  track: Track;
+  score: number;
+  highlights: { title: Highlight[]; artist: Highlight[] };
+}
+
+type NumericField = "year" | "duration";
+
+interface NumericFilter {
+  field: NumericField;
+  min: number;
+  max: number;
+}
+
+export interface QueryTerm {
+  field: SearchField | null;
+  text: string;
+  isPhrase: boolean;
+  isNegated: boolean;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  filters: (NumericFilter & { isNegated: boolean })[];
+}
+
+interface NormalizedText {
+  text: string;
+  // Offset in the original string of every character of `text`
+  offsets: number[];
+}
+
+interface SearchDoc {
+  track: Track;
+  fields: Record<SearchField, string>;
+  title: NormalizedText;
+  artist: NormalizedText;
+}
+
+interface Posting {
+  doc: number;
+  field: SearchField;
+}
+
+const SEARCH_FIELDS: SearchField[] = ["title", "artist", "album", "genre", "folder", "file"];
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  artist: 2,
+  album: 1.5,
+  genre: 1,
+  folder: 0.5,
+  file: 0.5,
+};
+
+const FIELD_ALIASES: Record<string, SearchField | NumericField> = {
+  title: "title",
+  artist: "artist",
+  album: "album",
+  genre: "genre",
+  folder: "folder",
+  file: "file",
+  year: "year",
+  duration: "duration",
+  length: "duration",
+};
+
+// How well a query term matches one indexed word
+const EXACT_SCORE = 10;
+const PHRASE_SCORE = 8;
+const PREFIX_SCORE = 6;
+const SUBSTRING_SCORE = 3;
+const TYPO_SCORE = 2;
+// Shorter terms would match far too much with a substring or a typo
+const MIN_SUBSTRING_LENGTH = 3;
+const MIN_TYPO_LENGTH = 4;
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+// Lowercases, strips diacritics and turns punctuation into single spaces, remembering where each
+// character came from so matches can be highlighted in the original text
+export function normalizeText(original: string): NormalizedText {
+  let text = "";
+  const offsets: number[] = [];
+  let offset = 0;
+
+  const append = (c: string, isWord: boolean) => {
+    if (isWord) {
+      text += c;
+      offsets.push(offset);
+    } else if (text.length > 0 && text[text.length - 1] !== " ") {
+      text += " ";
+      offsets.push(offset);
+    }
+  };
+
+  for (const char of original) {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) {
+      // Plain ASCII needs no Unicode normalization, which is most of the work on a big library
+      const lower = code >= 65 && code <= 90 ? String.fromCharCode(code + 32) : char;
+      append(lower, /[a-z0-9]/.test(lower));
+    } else {
+      for (const c of char.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase()) {
+        append(c, WORD_CHARACTER.test(c));
+      }
+    }
+    offset += char.length;
+  }
+
+  if (text.endsWith(" ")) {
+    text = text.slice(0, -1);
+    offsets.pop();
+  }
+  return { text, offsets };
+}
+
+export const normalize = (text: string) => normalizeText(text).text;
+
+// True when a and b differ by at most one insertion, deletion, substitution or swap of neighbours
+export function isWithinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) {
+    return false;
+  }
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) {
+    i++;
+  }
+  if (i === a.length || i === b.length) {
+    return true;
+  }
+  if (a.length === b.length) {
+    return (
+      a.slice(i + 1) === b.slice(i + 1) || (a[i] === b[i + 1] && a[i + 1] === b[i] && a.slice(i + 2) === b.slice(i + 2))
+    );
+  }
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1);
+}
+
+const matchWord = (term: string, word: string): number => {
+  if (word === term) {
+    return EXACT_SCORE;
+  }
+  if (word.startsWith(term)) {
+    return PREFIX_SCORE;
+  }
+  if (term.length >= MIN_SUBSTRING_LENGTH && word.includes(term)) {
+    return SUBSTRING_SCORE;
+  }
+  if (term.length >= MIN_TYPO_LENGTH && isWithinOneEdit(term, word)) {
+    return TYPO_SCORE;
+  }
+  return 0;
+};
+
+// "5m", "90s", "1h", "3:30" or plain seconds, in milliseconds
+export function parseDuration(value: string): number | null {
+  const clock = value.match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  if (clock) {
+    const parts = clock.slice(1).filter(Boolean).map(Number);
+    return parts.reduce((total, part) => total * 60 + part, 0) * 1000;
+  }
+  const match = value.match(/^(\d+(?:\.\d+)?)(h|m|min|s|sec)?$/);
+  if (!match) {
+    return null;
+  }
+  const amount = parseFloat(match[1]);
+  const unit = match[2] || "s";
+  const seconds = unit === "h" ? amount * 3600 : unit.startsWith("m") ? amount * 60 : amount;
+  return seconds * 1000;
+}
+
+// "1990..1999", ">5m", "<=2000" or a single value
+function parseNumericFilter(field: NumericField, value: string): NumericFilter | null {
+  const parse = (text: string) =>
+    field === "duration" ? parseDuration(text) : /^\d+$/.test(text) ? Number(text) : null;
+
+  const range = value.match(/^(.*)\.\.(.*)$/);
+  if (range) {
+    const min = range[1] ? parse(range[1]) : -Infinity;
+    const max = range[2] ? parse(range[2]) : Infinity;
+    return min === null || max === null ? null : { field, min, max };
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<)(.+)$/);
+  const number = parse(comparison ? comparison[2] : value);
+  if (number === null) {
+    return null;
+  }
+  switch (comparison?.[1]) {
+    case ">":
+      return { field, min: number + 1, max: Infinity };
+    case ">=":
+      return { field, min: number, max: Infinity };
+    case "<":
+      return { field, min: -Infinity, max: number - 1 };
+    case "<=":
+      return { field, min: -Infinity, max: number };
+    default:
+      // A bare duration matches the whole second it names
+      return field === "duration" ? { field, min: number, max: number + 999 } : { field, min: number, max: number };
+  }
+}
+
+const QUERY_TOKEN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], filters: [] };
+
+  for (const match of query.matchAll(QUERY_TOKEN)) {
+    const [token, minus, fieldName, quoted, bare] = match;
+    const isNegated = minus === "-";
+    const isPhrase = quoted !== undefined;
+    const value = isPhrase ? quoted : bare;
+    const field = fieldName ? FIELD_ALIASES[fieldName.toLowerCase()] : undefined;
+
+    if (field === "year" || field === "duration") {
+      const filter = parseNumericFilter(field, value);
+      // A value that does not parse ("year:abc") is dropped rather than searched as text
+      if (filter) {
+        parsed.filters.push({ ...filter, isNegated });
+      }
+      continue;
+    }
+
+    // An unknown qualifier is just more text to look for
+    const text = normalize(field ? value : fieldName ? token.slice(minus.length) : value);
+    if (!text) {
+      continue;
+    }
+    const searchField = field ?? null;
+    // Punctuation inside a word ("rock-n-roll") leaves several words, which are looked up as a phrase
+    parsed.terms.push({ field: searchField, text, isPhrase: isPhrase || text.includes(" "), isNegated });
+  }
+
+  return parsed;
+}
+
+const findAll = (text: string, needle: string, from: Highlight[]) => {
+  let index = text.indexOf(needle);
+  while (needle && index !== -1) {
+    from.push([index, index + needle.length]);
+    index = text.indexOf(needle, index + needle.length);
+  }
+};
+
+// Maps matches in the normalized text back to merged ranges of the original
+function highlight(normalized: NormalizedText, needles: string[], originalLength: number): Highlight[] {
+  const found: Highlight[] = [];
+  needles.forEach((needle) => findAll(normalized.text, needle, found));
+  found.sort((a, b) => a[0] - b[0]);
+
+  const ranges: Highlight[] = [];
+  found.forEach(([start, end]) => {
+    const originalStart = normalized.offsets[start];
+    const originalEnd = end < normalized.offsets.length ? normalized.offsets[end] : originalLength;
+    const last = ranges[ranges.length - 1];
+    if (last && originalStart <= last[1]) {
+      last[1] = Math.max(last[1], originalEnd);
+    } else {
+      ranges.push([originalStart, originalEnd]);
+    }
+  });
+  return ranges;
+}
+
+// Normalized once per track object, so rebuilding the index while a scan adds tracks stays cheap
+const docCache = new WeakMap<Track, SearchDoc>();
+
+const toDoc = (track: Track): SearchDoc => {
+  let doc = docCache.get(track);
+  if (!doc) {
+    const title = normalizeText(track.title);
+    const artist = normalizeText(track.artist || "");
+    doc = {
+      track,
+      fields: {
+        title: title.text,
+        artist: artist.text,
+        album: normalize(track.album || ""),
+        genre: normalize(track.genre || ""),
+        folder: normalize(track.folderPath || ""),
+        file: normalize(track.fileName),
+      },
+      title,
+      artist,
+    };
+    docCache.set(track, doc);
+  }
+  return doc;
+};
+
+// Word-level inverted index over the library. A query term is matched against the distinct words
+// once instead of against every track, which keeps typing responsive on large libraries.
+export class SearchIndex {
+  private docs: SearchDoc[];
+  private postings = new Map<string, Posting[]>();
+
+  constructor(tracks: Track[]) {
+    this.docs = tracks.map(toDoc);
+    this.docs.forEach((doc, index) => {
+      SEARCH_FIELDS.forEach((field) => {
+        new Set(doc.fields[field].split(" ")).forEach((word) => {
+          if (!word) {
+            return;
+          }
+          let list = this.postings.get(word);
+          if (!list) {
+            list = [];
+            this.postings.set(word, list);
+          }
+          list.push({ doc: index, field });
+        });
+      });
+    });
+  }
+
+  // Best score per document for a single word term, plus the words that matched it. Excluding
+  // is strict: a negated term only drops words it matches exactly or as a prefix.
+  private matchTerm(term: QueryTerm): { scores: Map<number, number>; needles: string[] } {
+    const scores = new Map<number, number>();
+    const needles = [term.text];
+    const minScore = term.isNegated ? PREFIX_SCORE : 1;
+
+    this.postings.forEach((postings, word) => {
+      const wordScore = matchWord(term.text, word);
+      if (wordScore < minScore) {
+        return;
+      }
+      if (wordScore === TYPO_SCORE) {
+        needles.push(word);
+      }
+      postings.forEach(({ doc, field }) => {
+        if (term.field && field !== term.field) {
+          return;
+        }
+        const score = wordScore * FIELD_WEIGHTS[field];
+        if (score > (scores.get(doc) ?? 0)) {
+          scores.set(doc, score);
+        }
+      });
+    });
+
+    return { scores, needles };
+  }
+
+  private matchPhrase(term: QueryTerm): Map<number, number> {
+    const scores = new Map<number, number>();
+    const fields = term.field ? [term.field] : SEARCH_FIELDS;
+    this.docs.forEach((doc, index) => {
+      fields.forEach((field) => {
+        if (doc.fields[field].includes(term.text)) {
+          const score = PHRASE_SCORE * FIELD_WEIGHTS[field];
+          if (score > (scores.get(index) ?? 0)) {
+            scores.set(index, score);
+          }
+        }
+      });
+    });
+    return scores;
+  }
+
+  // Tracks matching every term and filter, best first; an empty query returns everything in order
+  search(query: string): SearchResult[] {
+    const { terms, filters } = parseQuery(query);
+    let candidates: Map<number, number> | null = null;
+    const excluded = new Set<number>();
+    const needles: string[] = [];
+
+    terms.forEach((term) => {
+      let scores: Map<number, number>;
+      if (term.isPhrase) {
+        scores = this.matchPhrase(term);
+      } else {
+        const match = this.matchTerm(term);
+        scores = match.scores;
+        if (!term.isNegated) {
+          needles.push(...match.needles);
+        }
+      }
+      if (term.isPhrase && !term.isNegated) {
+        needles.push(term.text);
+      }
+
+      if (term.isNegated) {
+        scores.forEach((_, doc) => excluded.add(doc));
+        return;
+      }
+      const next = new Map<number, number>();
+      (candidates ?? scores).forEach((score, doc) => {
+        const termScore = scores.get(doc);
+        if (termScore !== undefined) {
+          next.set(doc, candidates ? score + termScore : termScore);
+        }
+      });
+      candidates = next;
+    });
+
+    const matchesFilters = (doc: SearchDoc) =>
+      filters.every(({ field, min, max, isNegated }) => {
+        const value = field === "year" ? doc.track.year : doc.track.duration;
+        const inRange = value !== undefined && value >= min && value <= max;
+        return inRange !== isNegated;
+      });
+
+    const results: SearchResult[] = [];
+    this.docs.forEach((doc, index) => {
+      const score = candidates ? (candidates as Map<number, number>).get(index) : 0;
+      if (score === undefined || excluded.has(index) || !matchesFilters(doc)) {
+        return;
+      }
+      results.push({
+        track: doc.track,
+        score,
+        highlights: {
+          title: highlight(doc.title, needles, doc.track.title.length),
+          artist: highlight(doc.artist, needles, (doc.track.artist || "").length),
+        },
+      });
+    });
+
+    // Array.prototype.sort is stable, so equal scores keep library order
+    return results.sort((a, b) => b.score - a.score);
+  }
+}
@@ -0,0 +1,1039 @@
+import {
+  base64ToBytes,
+  ByteSource,
+  concatBytes,
+  decodeLatin1,
+  decodeUtf16,
+  decodeUtf8,
+  readAscii,
+  readUint16BE,
+  readUint24BE,
+  readUint32BE,
+  readUint32LE,
+  readUint64BE,
+  readUint64LE,
+} from "@/services/Binary";
+import { readWavInfo } from "@/services/WavFile";
+
+export type AudioFormat = "mp3" | "flac" | "ogg" | "m4a" | "wav" | "unknown";
+
+export interface AudioTags {
+  format: AudioFormat;
+  title?: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+  discNumber?: number;
+  discTotal?: number;
+  year?: number;
+  genre?: string;
+  duration?: number; // milliseconds
+}
+
+// How much of the file to pull in when a header's real size is not known up front
+const PROBE_SIZE = 64 * 1024;
+
+// ID3v1 genre list, including the Winamp extensions most taggers still write
+export const ID3_GENRES = [
+  "Blues", "Classic Rock", "Country", "Dance", "Disco", "Funk", "Grunge", "Hip-Hop", "Jazz", "Metal",
+  "New Age", "Oldies", "Other", "Pop", "R&B", "Rap", "Reggae", "Rock", "Techno", "Industrial",
+  "Alternative", "Ska", "Death Metal", "Pranks", "Soundtrack", "Euro-Techno", "Ambient", "Trip-Hop", "Vocal", "Jazz+Funk",
+  "Fusion", "Trance", "Classical", "Instrumental", "Acid", "House", "Game", "Sound Clip", "Gospel", "Noise",
+  "AlternRock", "Bass", "Soul", "Punk", "Space", "Meditative", "Instrumental Pop", "Instrumental Rock", "Ethnic", "Gothic",
+  "Darkwave", "Techno-Industrial", "Electronic", "Pop-Folk", "Eurodance", "Dream", "Southern Rock", "Comedy", "Cult", "Gangsta",
+  "Top 40", "Christian Rap", "Pop/Funk", "Jungle", "Native American", "Cabaret", "New Wave", "Psychadelic", "Rave", "Showtunes",
+  "Trailer", "Lo-Fi", "Tribal", "Acid Punk", "Acid Jazz", "Polka", "Retro", "Musical", "Rock & Roll", "Hard Rock",
+  "Folk", "Folk-Rock", "National Folk", "Swing", "Fast Fusion", "Bebob", "Latin", "Revival", "Celtic", "Bluegrass",
+  "Avantgarde", "Gothic Rock", "Progressive Rock", "Psychedelic Rock", "Symphonic Rock", "Slow Rock", "Big Band", "Chorus", "Easy Listening", "Acoustic",
+  "Humour", "Speech", "Chanson", "Opera", "Chamber Music", "Sonata", "Symphony", "Booty Bass", "Primus", "Porn Groove",
+  "Satire", "Slow Jam", "Club", "Tango", "Samba", "Folklore", "Ballad", "Power Ballad", "Rhythmic Soul", "Freestyle",
+  "Duet", "Punk Rock", "Drum Solo", "A capella", "Euro-House", "Dance Hall",
+]; // prettier-ignore
+
+const clean = (value: string | undefined) => {
+  const trimmed = value?.replace(/\0+$/, "").trim();
+  return trimmed ? trimmed : undefined;
+};
+
+// "3/12" style positions used by ID3 TRCK/TPOS and some Vorbis comments
+const parsePosition = (value: string | undefined): [number | undefined, number | undefined] => {
+  if (!value) {
+    return [undefined, undefined];
+  }
+  const [number, total] = value.split("/").map((part) => parseInt(part, 10));
+  return [
+    Number.isFinite(number) && number > 0 ? number : undefined,
+    Number.isFinite(total) && total > 0 ? total : undefined,
+  ];
+};
+
+const parseYear = (value: string | undefined) => {
+  const match = value?.match(/\d{4}/);
+  return match ? Number(match[0]) : undefined;
+};
+
+// ID3 genres may be "(13)", "13", "(13)Pop" or plain text
+const resolveGenre = (value: string | undefined) => {
+  const text = clean(value);
+  if (!text) {
+    return undefined;
+  }
+  const match = text.match(/^\((\d+)\)(.*)$/) || text.match(/^(\d+)()$/);
+  if (match) {
+    return clean(match[2]) || ID3_GENRES[Number(match[1])] || text;
+  }
+  return text;
+};
+
+const mergeTags = (primary: AudioTags, fallback: Partial<AudioTags>): AudioTags => {
+  const merged = { ...primary };
+  (Object.keys(fallback) as (keyof AudioTags)[]).forEach((key) => {
+    if (merged[key] === undefined && fallback[key] !== undefined) {
+      (merged as Record<string, unknown>)[key] = fallback[key];
+    }
+  });
+  return merged;
+};
+
+const formatFromExtension = (fileName: string): AudioFormat => {
+  switch (fileName.split(".").pop()?.toLowerCase()) {
+    case "mp3":
+      return "mp3";
+    case "flac":
+      return "flac";
+    case "ogg":
+    case "oga":
+    case "opus":
+      return "ogg";
+    case "m4a":
+    case "mp4":
+    case "aac":
+      return "m4a";
+    case "wav":
+      return "wav";
+    default:
+      return "unknown";
+  }
+};
+
+export function detectFormat(header: Uint8Array, fileName = ""): AudioFormat {
+  const magic = readAscii(header, 0, 4);
+  if (magic === "fLaC") return "flac";
+  if (magic === "OggS") return "ogg";
+  if (magic === "RIFF" && readAscii(header, 8, 4) === "WAVE") return "wav";
+  if (readAscii(header, 4, 4) === "ftyp") return "m4a";
+  // An ID3v2 tag is usually MP3, but some encoders also prepend one to FLAC files
+  if (magic.startsWith("ID3")) return formatFromExtension(fileName) === "flac" ? "flac" : "mp3";
+  if (header[0] === 0xff && (header[1] & 0xe0) === 0xe0) return "mp3";
+
+  return formatFromExtension(fileName);
+}
+
+// ---------------------------------------------------------------------------
+// ID3v2
+
+export interface Id3Frame {
+  id: string;
+  data: Uint8Array;
+  // Status flags (tag/file alter preservation, read only) in the bit layout of the tag's version
+  status?: number;
+  // Grouping identity, for frames that belong to a group
+  group?: number;
+  // Compressed and encrypted frames cannot be decoded; `data` is then the frame body as stored and
+  // `format` its format flags, so the frame can be written back unchanged in the same version
+  opaque?: { format: number };
+}
+
+export interface Id3Tag {
+  version: number;
+  size: number; // full tag size including the 10 byte header (and footer, if any)
+  frames: Id3Frame[];
+}
+
+export const readSynchsafe = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] & 0x7f) << 21) |
+  ((bytes[offset + 1] & 0x7f) << 14) |
+  ((bytes[offset + 2] & 0x7f) << 7) |
+  (bytes[offset + 3] & 0x7f);
+
+const removeUnsynchronisation = (bytes: Uint8Array) => {
+  const result: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    result.push(bytes[i]);
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) {
+      i++;
+    }
+  }
+  return new Uint8Array(result);
+};
+
+// Frame ids from ID3v2.2 mapped to their v2.3/2.4 names, including the ones iTunes added for sorting
+export const ID3V22_FRAME_IDS: Record<string, string> = {
+  BUF: "RBUF",
+  CNT: "PCNT",
+  COM: "COMM",
+  CRA: "AENC",
+  ETC: "ETCO",
+  EQU: "EQUA",
+  GEO: "GEOB",
+  IPL: "IPLS",
+  LNK: "LINK",
+  MCI: "MCDI",
+  MLL: "MLLT",
+  PIC: "APIC",
+  POP: "POPM",
+  REV: "RVRB",
+  RVA: "RVAD",
+  SLT: "SYLT",
+  STC: "SYTC",
+  TAL: "TALB",
+  TBP: "TBPM",
+  TCM: "TCOM",
+  TCO: "TCON",
+  TCP: "TCMP",
+  TCR: "TCOP",
+  TDA: "TDAT",
+  TDY: "TDLY",
+  TEN: "TENC",
+  TFT: "TFLT",
+  TIM: "TIME",
+  TKE: "TKEY",
+  TLA: "TLAN",
+  TLE: "TLEN",
+  TMT: "TMED",
+  TOA: "TOPE",
+  TOF: "TOFN",
+  TOL: "TOLY",
+  TOR: "TORY",
+  TOT: "TOAL",
+  TP1: "TPE1",
+  TP2: "TPE2",
+  TP3: "TPE3",
+  TP4: "TPE4",
+  TPA: "TPOS",
+  TPB: "TPUB",
+  TRC: "TSRC",
+  TRD: "TRDA",
+  TRK: "TRCK",
+  TS2: "TSO2",
+  TSA: "TSOA",
+  TSC: "TSOC",
+  TSI: "TSIZ",
+  TSP: "TSOP",
+  TSS: "TSSE",
+  TST: "TSOT",
+  TT1: "TIT1",
+  TT2: "TIT2",
+  TT3: "TIT3",
+  TXT: "TEXT",
+  TXX: "TXXX",
+  TYE: "TYER",
+  UFI: "UFID",
+  ULT: "USLT",
+  WAF: "WOAF",
+  WAR: "WOAR",
+  WAS: "WOAS",
+  WCM: "WCOM",
+  WCP: "WCOP",
+  WPB: "WPUB",
+  WXX: "WXXX",
+};
+
+export function getId3TagSize(header: Uint8Array): number {
+  if (readAscii(header, 0, 3) !== "ID3" || header.length < 10) {
+    return 0;
+  }
+  const hasFooter = (header[5] & 0x10) !== 0;
+  return 10 + readSynchsafe(header, 6) + (hasFooter ? 10 : 0);
+}
+
+export function parseId3v2(bytes: Uint8Array): Id3Tag | null {
+  const size = getId3TagSize(bytes);
+  if (!size) {
+    return null;
+  }
+
+  const version = bytes[3];
+  const flags = bytes[5];
+  let body = bytes.subarray(10, Math.min(10 + readSynchsafe(bytes, 6), bytes.length));
+
+  if (version < 4 && flags & 0x80) {
+    body = removeUnsynchronisation(body);
+  }
+
+  let offset = 0;
+  if (flags & 0x40) {
+    offset = version === 3 ? readUint32BE(body, 0) + 4 : readSynchsafe(body, 0);
+  }
+
+  const frames: Id3Frame[] = [];
+  const headerSize = version === 2 ? 6 : 10;
+
+  while (offset + headerSize <= body.length) {
+    const rawId = readAscii(body, offset, version === 2 ? 3 : 4);
+    if (!/^[A-Z0-9]+$/.test(rawId)) {
+      break; // padding
+    }
+
+    let frameSize: number;
+    let status = 0;
+    let formatFlags = 0;
+    if (version === 2) {
+      frameSize = readUint24BE(body, offset + 3);
+    } else {
+      frameSize = version === 4 ? readSynchsafe(body, offset + 4) : readUint32BE(body, offset + 4);
+      status = body[offset + 8];
+      formatFlags = body[offset + 9];
+    }
+
+    const start = offset + headerSize;
+    offset = start + frameSize;
+    if (frameSize <= 0 || offset > body.length) {
+      break;
+    }
+
+    // Compressed (0x80 in v2.3, 0x08 in v2.4) and encrypted frames cannot be read, only kept
+    const compressed = version === 3 ? formatFlags & 0x80 : formatFlags & 0x08;
+    const encrypted = version === 3 ? formatFlags & 0x40 : formatFlags & 0x04;
+    if (compressed || encrypted) {
+      frames.push({ id: rawId, data: body.subarray(start, offset), status, opaque: { format: formatFlags } });
+      continue;
+    }
+
+    let data = body.subarray(start, offset);
+    let group: number | undefined;
+    if (version === 4) {
+      if (formatFlags & 0x40) {
+        group = data[0];
+        data = data.subarray(1);
+      }
+      if (formatFlags & 0x01) data = data.subarray(4); // data length indicator
+      if (formatFlags & 0x02) data = removeUnsynchronisation(data);
+    } else if (version === 3 && formatFlags & 0x20) {
+      group = data[0];
+      data = data.subarray(1);
+    }
+
+    frames.push({ id: version === 2 ? ID3V22_FRAME_IDS[rawId] || rawId : rawId, data, status, group });
+  }
+
+  return { version, size, frames };
+}
+
+export const decodeId3Text = (encoding: number, bytes: Uint8Array) => {
+  switch (encoding) {
+    case 1: {
+      // UTF-16 with BOM
+      const littleEndian = !(bytes[0] === 0xfe && bytes[1] === 0xff);
+      const hasBom = (bytes[0] === 0xff && bytes[1] === 0xfe) || (bytes[0] === 0xfe && bytes[1] === 0xff);
+      return decodeUtf16(hasBom ? bytes.subarray(2) : bytes, littleEndian);
+    }
+    case 2:
+      return decodeUtf16(bytes, false);
+    case 3:
+      return decodeUtf8(bytes);
+    default:
+      return decodeLatin1(bytes);
+  }
+};
+
+// Finds the end of a null-terminated string in the given encoding, returning the offset after the terminator
+export const findId3Terminator = (encoding: number, bytes: Uint8Array, offset: number) => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = offset; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) {
+      return { end: i, next: i + (wide ? 2 : 1) };
+    }
+  }
+  return { end: bytes.length, next: bytes.length };
+};
+
+const readId3TextFrame = (data: Uint8Array) => {
+  // v2.4 allows several null-separated values; the first one is what players show
+  const text = decodeId3Text(data[0], data.subarray(1));
+  return clean(text.split("\0")[0]);
+};
+
+function tagsFromId3v2(tag: Id3Tag): Partial<AudioTags> {
+  const text = (id: string) => {
+    const frame = tag.frames.find((f) => f.id === id && !f.opaque);
+    return frame ? readId3TextFrame(frame.data) : undefined;
+  };
+
+  const [trackNumber, trackTotal] = parsePosition(text("TRCK"));
+  const [discNumber, discTotal] = parsePosition(text("TPOS"));
+  const length = Number(text("TLEN"));
+
+  return {
+    title: text("TIT2"),
+    artist: text("TPE1"),
+    album: text("TALB"),
+    albumArtist: text("TPE2"),
+    trackNumber,
+    trackTotal,
+    discNumber,
+    discTotal,
+    year: parseYear(text("TDRC") || text("TYER")),
+    genre: resolveGenre(text("TCON")),
+    duration: Number.isFinite(length) && length > 0 ? length : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// ID3v1
+
+export function parseId3v1(bytes: Uint8Array): Partial<AudioTags> | null {
+  if (bytes.length < 128 || readAscii(bytes, 0, 3) !== "TAG") {
+    return null;
+  }
+
+  const field = (offset: number, length: number) => clean(decodeLatin1(bytes.subarray(offset, offset + length)));
+  // ID3v1.1 stores the track number in the last comment byte when the one before it is zero
+  const trackNumber = bytes[125] === 0 && bytes[126] !== 0 ? bytes[126] : undefined;
+
+  return {
+    title: field(3, 30),
+    artist: field(33, 30),
+    album: field(63, 30),
+    year: parseYear(field(93, 4)),
+    trackNumber,
+    genre: bytes[127] < ID3_GENRES.length ? ID3_GENRES[bytes[127]] : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// MPEG audio frames (for MP3 duration)
+
+const MPEG_BITRATES: Record<string, number[]> = {
+  V1L1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  V1L2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  V1L3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  V2L1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  V2L2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+interface MpegFrameHeader {
+  bitrate: number; // kbit/s
+  sampleRate: number;
+  samplesPerFrame: number;
+  sideInfoSize: number;
+}
+
+function parseMpegFrameHeader(bytes: Uint8Array, offset: number): MpegFrameHeader | null {
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const versionBits = (bytes[offset + 1] >> 3) & 0x03;
+  const layerBits = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = (bytes[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const channelMode = (bytes[offset + 3] >> 6) & 0x03;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const layer = 4 - layerBits;
+  const isV1 = versionBits === 3;
+  const table = isV1 ? `V1L${layer}` : layer === 1 ? "V2L1" : "V2L2";
+  const mono = channelMode === 3;
+
+  return {
+    bitrate: MPEG_BITRATES[table][bitrateIndex],
+    sampleRate: MPEG_SAMPLE_RATES[versionBits][sampleRateIndex],
+    samplesPerFrame: layer === 1 ? 384 : layer === 2 || isV1 ? 1152 : 576,
+    sideInfoSize: isV1 ? (mono ? 17 : 32) : mono ? 9 : 17,
+  };
+}
+
+async function readMp3Duration(source: ByteSource, audioStart: number, audioEnd: number): Promise<number | undefined> {
+  const bytes = await source.read(audioStart, PROBE_SIZE);
+
+  // Skip any junk between the tag and the first real frame
+  let offset = 0;
+  let header: MpegFrameHeader | null = null;
+  while (offset + 4 < bytes.length && !(header = parseMpegFrameHeader(bytes, offset))) {
+    offset++;
+  }
+  if (!header) {
+    return undefined;
+  }
+
+  // VBR files carry a Xing/Info or VBRI header with the total frame count
+  const xingOffset = offset + 4 + header.sideInfoSize;
+  const xingId = readAscii(bytes, xingOffset, 4);
+  if ((xingId === "Xing" || xingId === "Info") && bytes[xingOffset + 7] & 0x01) {
+    const frames = readUint32BE(bytes, xingOffset + 8);
+    return (frames * header.samplesPerFrame * 1000) / header.sampleRate;
+  }
+
+  const vbriOffset = offset + 4 + 32;
+  if (readAscii(bytes, vbriOffset, 4) === "VBRI") {
+    const frames = readUint32BE(bytes, vbriOffset + 14);
+    return (frames * header.samplesPerFrame * 1000) / header.sampleRate;
+  }
+
+  // Otherwise assume constant bitrate
+  const audioBytes = audioEnd - (audioStart + offset);
+  return (audioBytes * 8) / header.bitrate;
+}
+
+async function readMp3(source: ByteSource): Promise<AudioTags> {
+  const header = await source.read(0, 10);
+  const tagSize = getId3TagSize(header);
+  const id3 = tagSize ? parseId3v2(await source.read(0, tagSize)) : null;
+
+  const trailer = source.size >= 128 ? await source.read(source.size - 128, 128) : new Uint8Array(0);
+  const id3v1 = parseId3v1(trailer);
+  const audioEnd = id3v1 ? source.size - 128 : source.size;
+
+  let tags: AudioTags = { format: "mp3", ...(id3 ? tagsFromId3v2(id3) : {}) };
+  if (id3v1) {
+    tags = mergeTags(tags, id3v1);
+  }
+  if (!tags.duration) {
+    tags.duration = await readMp3Duration(source, tagSize, audioEnd);
+  }
+  return tags;
+}
+
+// ---------------------------------------------------------------------------
+// Vorbis comments (FLAC and Ogg)
+
+export function parseVorbisComment(bytes: Uint8Array): { vendor: string; comments: [string, string][] } {
+  let offset = 0;
+  const vendorLength = readUint32LE(bytes, offset);
+  offset += 4;
+  const vendor = decodeUtf8(bytes.subarray(offset, offset + vendorLength));
+  offset += vendorLength;
+
+  const count = readUint32LE(bytes, offset);
+  offset += 4;
+
+  const comments: [string, string][] = [];
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = readUint32LE(bytes, offset);
+    offset += 4;
+    const comment = decodeUtf8(bytes.subarray(offset, offset + length));
+    offset += length;
+
+    const separator = comment.indexOf("=");
+    if (separator > 0) {
+      comments.push([comment.slice(0, separator).toUpperCase(), comment.slice(separator + 1)]);
+    }
+  }
+
+  return { vendor, comments };
+}
+
+function tagsFromVorbisComments(comments: [string, string][]): Partial<AudioTags> {
+  const get = (...keys: string[]) => {
+    for (const key of keys) {
+      const entry = comments.find(([name]) => name === key);
+      if (entry && clean(entry[1])) {
+        return clean(entry[1]);
+      }
+    }
+    return undefined;
+  };
+
+  const [trackNumber, trackTotalInline] = parsePosition(get("TRACKNUMBER"));
+  const [discNumber, discTotalInline] = parsePosition(get("DISCNUMBER"));
+  const [trackTotal] = parsePosition(get("TRACKTOTAL", "TOTALTRACKS"));
+  const [discTotal] = parsePosition(get("DISCTOTAL", "TOTALDISCS"));
+
+  return {
+    title: get("TITLE"),
+    artist: get("ARTIST"),
+    album: get("ALBUM"),
+    albumArtist: get("ALBUMARTIST", "ALBUM ARTIST"),
+    trackNumber,
+    trackTotal: trackTotal ?? trackTotalInline,
+    discNumber,
+    discTotal: discTotal ?? discTotalInline,
+    year: parseYear(get("DATE", "YEAR")),
+    genre: get("GENRE"),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// FLAC
+
+export interface FlacBlock {
+  type: number;
+  isLast: boolean;
+  offset: number; // of the 4 byte block header
+  length: number; // of the block body
+}
+
+export async function readFlacBlocks(source: ByteSource, start: number): Promise<FlacBlock[]> {
+  const blocks: FlacBlock[] = [];
+  let offset = start + 4; // skip "fLaC"
+
+  while (offset + 4 <= source.size) {
+    const header = await source.read(offset, 4);
+    const block = { type: header[0] & 0x7f, isLast: (header[0] & 0x80) !== 0, offset, length: readUint24BE(header, 1) };
+    blocks.push(block);
+    offset += 4 + block.length;
+    if (block.isLast) {
+      break;
+    }
+  }
+
+  return blocks;
+}
+
+async function readFlac(source: ByteSource): Promise<AudioTags> {
+  // Some encoders prepend an ID3v2 tag to FLAC files
+  const start = getId3TagSize(await source.read(0, 10));
+  const blocks = await readFlacBlocks(source, start);
+  let tags: AudioTags = { format: "flac" };
+
+  for (const block of blocks) {
+    if (block.type === 0) {
+      const info = await source.read(block.offset + 4, block.length);
+      const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+      const totalSamples = (info[13] & 0x0f) * 2 ** 32 + readUint32BE(info, 14);
+      if (sampleRate > 0 && totalSamples > 0) {
+        tags.duration = (totalSamples * 1000) / sampleRate;
+      }
+    } else if (block.type === 4) {
+      const { comments } = parseVorbisComment(await source.read(block.offset + 4, block.length));
+      tags = mergeTags(tags, tagsFromVorbisComments(comments));
+    }
+  }
+
+  return tags;
+}
+
+// ---------------------------------------------------------------------------
+// Ogg (Vorbis and Opus)
+
+// Reassembles the first packets of the first logical stream, which hold the codec and comment headers
+export async function readOggPackets(source: ByteSource, count: number): Promise<Uint8Array[]> {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let offset = 0;
+  let serial: number | null = null;
+
+  while (packets.length < count && offset + 27 <= source.size) {
+    const header = await source.read(offset, 27 + 255);
+    if (readAscii(header, 0, 4) !== "OggS") {
+      break;
+    }
+
+    const pageSerial = readUint32LE(header, 14);
+    const segmentCount = header[26];
+    const segments = header.subarray(27, 27 + segmentCount);
+    const bodySize = segments.reduce((sum, size) => sum + size, 0);
+    const bodyOffset = offset + 27 + segmentCount;
+    offset = bodyOffset + bodySize;
+
+    if (serial === null) {
+      serial = pageSerial;
+    } else if (pageSerial !== serial) {
+      continue;
+    }
+
+    const body = await source.read(bodyOffset, bodySize);
+    let position = 0;
+    for (const size of segments) {
+      pending.push(body.subarray(position, position + size));
+      position += size;
+      if (size < 255) {
+        packets.push(concatBytes(pending));
+        pending = [];
+        if (packets.length >= count) {
+          break;
+        }
+      }
+    }
+  }
+
+  return packets;
+}
+
+async function readOggFinalGranule(source: ByteSource): Promise<number | undefined> {
+  const tailLength = Math.min(source.size, PROBE_SIZE);
+  const tail = await source.read(source.size - tailLength, tailLength);
+  for (let i = tail.length - 27; i >= 0; i--) {
+    if (tail[i] === 0x4f && readAscii(tail, i, 4) === "OggS") {
+      return readUint64LE(tail, i + 6);
+    }
+  }
+  return undefined;
+}
+
+interface OggHeaders {
+  sampleRate: number;
+  preSkip: number;
+  commentBody: Uint8Array | null;
+}
+
+const parseOggHeaders = (identification: Uint8Array, comment: Uint8Array): OggHeaders => {
+  if (readAscii(identification, 1, 6) === "vorbis") {
+    return {
+      sampleRate: readUint32LE(identification, 12),
+      preSkip: 0,
+      commentBody: readAscii(comment, 1, 6) === "vorbis" ? comment.subarray(7) : null,
+    };
+  }
+  if (readAscii(identification, 0, 8) === "OpusHead") {
+    // Opus granule positions always count 48 kHz samples
+    return {
+      sampleRate: 48000,
+      preSkip: identification[10] | (identification[11] << 8),
+      commentBody: readAscii(comment, 0, 8) === "OpusTags" ? comment.subarray(8) : null,
+    };
+  }
+  return { sampleRate: 0, preSkip: 0, commentBody: null };
+};
+
+async function readOgg(source: ByteSource): Promise<AudioTags> {
+  const [identification, comment] = await readOggPackets(source, 2);
+  let tags: AudioTags = { format: "ogg" };
+  if (!identification || !comment) {
+    return tags;
+  }
+
+  const { sampleRate, preSkip, commentBody } = parseOggHeaders(identification, comment);
+  if (commentBody) {
+    tags = mergeTags(tags, tagsFromVorbisComments(parseVorbisComment(commentBody).comments));
+  }
+
+  const granule = await readOggFinalGranule(source);
+  if (granule && sampleRate > 0) {
+    tags.duration = (Math.max(granule - preSkip, 0) * 1000) / sampleRate;
+  }
+
+  return tags;
+}
+
+// ---------------------------------------------------------------------------
+// MP4 / M4A
+
+export interface Mp4Atom {
+  type: string;
+  offset: number; // of the atom header
+  headerSize: number;
+  size: number; // including the header
+}
+
+export function parseMp4Atoms(bytes: Uint8Array, start = 0, end = bytes.length): Mp4Atom[] {
+  const atoms: Mp4Atom[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = readUint32BE(bytes, offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = readUint64BE(bytes, offset + 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) {
+      break;
+    }
+
+    atoms.push({ type, offset, headerSize, size });
+    offset += size;
+  }
+
+  return atoms;
+}
+
+export async function findTopLevelAtom(source: ByteSource, type: string): Promise<Mp4Atom | null> {
+  let offset = 0;
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 16);
+    let size = readUint32BE(header, 0);
+    const atomType = readAscii(header, 4, 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = readUint64BE(header, 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = source.size - offset;
+    }
+    if (size < headerSize) {
+      return null;
+    }
+
+    if (atomType === type) {
+      return { type, offset, headerSize, size };
+    }
+    offset += size;
+  }
+  return null;
+}
+
+export const findChildAtom = (bytes: Uint8Array, parent: Mp4Atom, type: string, skip = 0) =>
+  parseMp4Atoms(bytes, parent.offset + parent.headerSize + skip, parent.offset + parent.size).find(
+    (atom) => atom.type === type
+  ) || null;
+
+// Walks a path like ["udta", "meta", "ilst"]; "meta" is a full atom with 4 extra bytes before its children
+export const findAtomPath = (bytes: Uint8Array, root: Mp4Atom, path: string[]) => {
+  let current: Mp4Atom | null = root;
+  for (const type of path) {
+    if (!current) {
+      return null;
+    }
+    current = findChildAtom(bytes, current, type, current.type === "meta" ? 4 : 0);
+  }
+  return current;
+};
+
+// Returns the payload of an ilst item's "data" atom, after its type and locale fields
+export const readIlstData = (bytes: Uint8Array, item: Mp4Atom) => {
+  const data = findChildAtom(bytes, item, "data");
+  return data ? bytes.subarray(data.offset + data.headerSize + 8, data.offset + data.size) : null;
+};
+
+async function readMp4(source: ByteSource): Promise<AudioTags> {
+  const tags: AudioTags = { format: "m4a" };
+  const moovAtom = await findTopLevelAtom(source, "moov");
+  if (!moovAtom) {
+    return tags;
+  }
+
+  // Work on the moov atom alone, rebased to offset 0
+  const moovBytes = await source.read(moovAtom.offset, moovAtom.size);
+  const moov: Mp4Atom = { ...moovAtom, offset: 0 };
+
+  const mvhd = findChildAtom(moovBytes, moov, "mvhd");
+  if (mvhd) {
+    const body = mvhd.offset + mvhd.headerSize;
+    const version = moovBytes[body];
+    const timescale = readUint32BE(moovBytes, body + (version === 1 ? 20 : 12));
+    const duration = version === 1 ? readUint64BE(moovBytes, body + 24) : readUint32BE(moovBytes, body + 16);
+    if (timescale > 0) {
+      tags.duration = (duration * 1000) / timescale;
+    }
+  }
+
+  const ilst = findAtomPath(moovBytes, moov, ["udta", "meta", "ilst"]);
+  if (!ilst) {
+    return tags;
+  }
+
+  parseMp4Atoms(moovBytes, ilst.offset + ilst.headerSize, ilst.offset + ilst.size).forEach((item) => {
+    const data = readIlstData(moovBytes, item);
+    if (!data) {
+      return;
+    }
+    const text = () => clean(decodeUtf8(data));
+
+    switch (item.type) {
+      case "©nam":
+        tags.title = text();
+        break;
+      case "©ART":
+        tags.artist = text();
+        break;
+      case "©alb":
+        tags.album = text();
+        break;
+      case "aART":
+        tags.albumArtist = text();
+        break;
+      case "©day":
+        tags.year = parseYear(text());
+        break;
+      case "©gen":
+        tags.genre = text();
+        break;
+      case "gnre":
+        // ID3v1 genre index, off by one
+        tags.genre = tags.genre || ID3_GENRES[readUint16BE(data, 0) - 1];
+        break;
+      case "trkn":
+        tags.trackNumber = readUint16BE(data, 2) || undefined;
+        tags.trackTotal = readUint16BE(data, 4) || undefined;
+        break;
+      case "disk":
+        tags.discNumber = readUint16BE(data, 2) || undefined;
+        tags.discTotal = readUint16BE(data, 4) || undefined;
+        break;
+    }
+  });
+
+  return tags;
+}
+
+// ---------------------------------------------------------------------------
+// Embedded pictures
+
+export interface EmbeddedPicture {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+// Picture type 3 is "Cover (front)" in both ID3 APIC frames and FLAC picture blocks
+const FRONT_COVER = 3;
+
+const pickCover = (pictures: (EmbeddedPicture & { type: number })[]): EmbeddedPicture | null => {
+  const picture = pictures.find((p) => p.type === FRONT_COVER) || pictures[0];
+  return picture ? { mimeType: picture.mimeType, data: picture.data } : null;
+};
+
+const sniffMimeType = (data: Uint8Array, declared: string) => {
+  if (data[0] === 0x89 && readAscii(data, 1, 3) === "PNG") return "image/png";
+  if (data[0] === 0xff && data[1] === 0xd8) return "image/jpeg";
+  return declared.includes("/") ? declared.toLowerCase() : "image/jpeg";
+};
+
+function parseApicFrame(data: Uint8Array) {
+  const encoding = data[0];
+  const mimeEnd = findId3Terminator(0, data, 1);
+  const mimeType = decodeLatin1(data.subarray(1, mimeEnd.end));
+  const type = data[mimeEnd.next];
+  const description = findId3Terminator(encoding, data, mimeEnd.next + 1);
+  const image = data.subarray(description.next);
+  return { type, mimeType: sniffMimeType(image, mimeType), data: image };
+}
+
+// ID3v2.2 PIC frames carry a 3 letter image format where APIC has a MIME type
+function parseV22Pic(data: Uint8Array) {
+  const encoding = data[0];
+  const type = data[4];
+  const description = findId3Terminator(encoding, data, 5);
+  const image = data.subarray(description.next);
+  return { type, mimeType: sniffMimeType(image, ""), data: image };
+}
+
+// Also used for base64 METADATA_BLOCK_PICTURE comments in Ogg files
+export function parseFlacPicture(data: Uint8Array) {
+  let offset = 0;
+  const type = readUint32BE(data, offset);
+  const mimeLength = readUint32BE(data, (offset += 4));
+  const mimeType = decodeLatin1(data.subarray((offset += 4), offset + mimeLength));
+  const descriptionLength = readUint32BE(data, (offset += mimeLength));
+  offset += 4 + descriptionLength + 16; // description, width, height, depth, colours
+  const dataLength = readUint32BE(data, offset);
+  const image = data.subarray(offset + 4, offset + 4 + dataLength);
+  return { type, mimeType: sniffMimeType(image, mimeType), data: image };
+}
+
+const picturesFromComments = (comments: [string, string][]) =>
+  comments
+    .filter(([key]) => key === "METADATA_BLOCK_PICTURE")
+    .map(([, value]) => parseFlacPicture(base64ToBytes(value)));
+
+async function readMp3Picture(source: ByteSource): Promise<EmbeddedPicture | null> {
+  const tagSize = getId3TagSize(await source.read(0, 10));
+  const id3 = tagSize ? parseId3v2(await source.read(0, tagSize)) : null;
+  if (!id3) {
+    return null;
+  }
+
+  return pickCover(
+    id3.frames
+      .filter((frame) => frame.id === "APIC" && !frame.opaque)
+      .map((frame) => (id3.version === 2 ? parseV22Pic(frame.data) : parseApicFrame(frame.data)))
+  );
+}
+
+async function readFlacPicture(source: ByteSource): Promise<EmbeddedPicture | null> {
+  const start = getId3TagSize(await source.read(0, 10));
+  const blocks = await readFlacBlocks(source, start);
+  const pictures = [];
+
+  for (const block of blocks) {
+    if (block.type === 6) {
+      pictures.push(parseFlacPicture(await source.read(block.offset + 4, block.length)));
+    } else if (block.type === 4) {
+      const { comments } = parseVorbisComment(await source.read(block.offset + 4, block.length));
+      pictures.push(...picturesFromComments(comments));
+    }
+  }
+
+  return pickCover(pictures);
+}
+
+async function readOggPicture(source: ByteSource): Promise<EmbeddedPicture | null> {
+  const [identification, comment] = await readOggPackets(source, 2);
+  const commentBody = identification && comment ? parseOggHeaders(identification, comment).commentBody : null;
+  return commentBody ? pickCover(picturesFromComments(parseVorbisComment(commentBody).comments)) : null;
+}
+
+async function readMp4Picture(source: ByteSource): Promise<EmbeddedPicture | null> {
+  const moovAtom = await findTopLevelAtom(source, "moov");
+  if (!moovAtom) {
+    return null;
+  }
+
+  const moovBytes = await source.read(moovAtom.offset, moovAtom.size);
+  const covr = findAtomPath(moovBytes, { ...moovAtom, offset: 0 }, ["udta", "meta", "ilst", "covr"]);
+  const dataAtom = covr ? findChildAtom(moovBytes, covr, "data") : null;
+  if (!dataAtom) {
+    return null;
+  }
+
+  // The data atom's type indicator is 13 for JPEG and 14 for PNG
+  const typeIndicator = readUint32BE(moovBytes, dataAtom.offset + dataAtom.headerSize) & 0xffffff;
+  const image = moovBytes.subarray(dataAtom.offset + dataAtom.headerSize + 8, dataAtom.offset + dataAtom.size);
+  return { mimeType: sniffMimeType(image, typeIndicator === 14 ? "image/png" : "image/jpeg"), data: image };
+}
+
+export async function readPicture(source: ByteSource, fileName = ""): Promise<EmbeddedPicture | null> {
+  const format = detectFormat(await source.read(0, 12), fileName);
+
+  try {
+    switch (format) {
+      case "mp3":
+        return await readMp3Picture(source);
+      case "flac":
+        return await readFlacPicture(source);
+      case "ogg":
+        return await readOggPicture(source);
+      case "m4a":
+        return await readMp4Picture(source);
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.error(`Error reading artwork from ${fileName}:`, error);
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+
+export async function readTags(source: ByteSource, fileName = ""): Promise<AudioTags> {
+  const header = await source.read(0, 12);
+  const format = detectFormat(header, fileName);
+
+  try {
+    switch (format) {
+      case "mp3":
+        return await readMp3(source);
+      case "flac":
+        return await readFlac(source);
+      case "ogg":
+        return await readOgg(source);
+      case "m4a":
+        return await readMp4(source);
+      case "wav":
+        return { format, duration: (await readWavInfo(source)).duration };
+      default:
+        return { format };
+    }
+  } catch (error) {
+    console.error(`Error reading tags from ${fileName}:`, error);
+    return { format };
+  }
+}
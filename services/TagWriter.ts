@@ -0,0 +1,419 @@
+import { Track } from "@/services/AudioService";
+import {
+  concatBytes,
+  encodeAscii,
+  encodeUtf8,
+  readAscii,
+  readUint24BE,
+  writeUint32BE,
+  writeUint32LE,
+} from "@/services/Binary";
+import {
+  decodeId3Text,
+  detectFormat,
+  findId3Terminator,
+  getId3TagSize,
+  ID3_GENRES,
+  Id3Frame,
+  ID3V22_FRAME_IDS,
+  parseId3v1,
+  parseId3v2,
+  parseVorbisComment,
+} from "@/services/TagReader";
+
+export type TagEdits = Partial<
+  Pick<Track, "title" | "artist" | "album" | "year" | "genre" | "trackNumber" | "trackTotal">
+>;
+
+export type Id3Version = 3 | 4;
+
+// Room left in a rewritten tag so later edits can often be written in place
+const TAG_PADDING = 1024;
+
+const isSet = (value: string | number | undefined) => value !== undefined && String(value).trim() !== "";
+
+// Dates such as "2001-05-03" are only replaced when their year changes, so a full date is not cut down to the
+// year the form shows
+const sameYear = (date: string | undefined, year: number | undefined) =>
+  date !== undefined && year !== undefined && parseInt(date.trim().slice(0, 4), 10) === year;
+
+const trackText = (edits: TagEdits) =>
+  isSet(edits.trackNumber)
+    ? edits.trackTotal
+      ? `${edits.trackNumber}/${edits.trackTotal}`
+      : `${edits.trackNumber}`
+    : "";
+
+// ---------------------------------------------------------------------------
+// ID3v2
+
+const writeSynchsafe = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = (value >> 21) & 0x7f;
+  bytes[offset + 1] = (value >> 14) & 0x7f;
+  bytes[offset + 2] = (value >> 7) & 0x7f;
+  bytes[offset + 3] = value & 0x7f;
+};
+
+const isLatin1 = (text: string) => /^[\x00-\xff]*$/.test(text);
+
+// ID3v2.2 and v2.3 only know Latin-1 (0) and UTF-16 with a BOM (1); v2.4 adds UTF-8 (3)
+const pickId3Encoding = (texts: string[], version: number) => (version === 4 ? 3 : texts.every(isLatin1) ? 0 : 1);
+
+const encodeId3String = (text: string, encoding: number) => {
+  if (encoding === 3) {
+    return encodeUtf8(text);
+  }
+  if (encoding === 0) {
+    return encodeAscii(text);
+  }
+  const utf16 = new Uint8Array(2 + text.length * 2);
+  utf16[0] = 0xff;
+  utf16[1] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    utf16[2 + i * 2] = code & 0xff;
+    utf16[3 + i * 2] = code >> 8;
+  }
+  return utf16;
+};
+
+const encodeId3Text = (text: string, version: number) => {
+  const encoding = pickId3Encoding([text], version);
+  return concatBytes([new Uint8Array([encoding]), encodeId3String(text, encoding)]);
+};
+
+// What follows the encoding byte in frames that carry text: "text" is a string in that encoding (up to a
+// terminator, or to the end when last), "latin1" a terminated ISO-8859-1 string, numbers fixed-size fields,
+// "binary" the rest of the frame and "synced" SYLT's run of terminated strings with 4-byte timestamps.
+// Other text frames (T***) are a single string.
+type Id3Field = "text" | "latin1" | "binary" | "synced" | number;
+
+const ID3_TEXT_LAYOUTS: Record<string, Id3Field[]> = {
+  TXXX: ["text", "text"],
+  WXXX: ["text", "binary"],
+  COMM: [3, "text", "text"],
+  USLT: [3, "text", "text"],
+  USER: [3, "text"],
+  IPLS: ["text"],
+  APIC: ["latin1", 1, "text", "binary"],
+  GEOB: ["latin1", "text", "text", "binary"],
+  SYLT: [3, 1, 1, "text", "synced"],
+  OWNE: ["latin1", 8, "text"],
+  COMR: ["latin1", 8, "latin1", 1, "text", "text", "binary"],
+};
+
+const textLayout = (id: string): Id3Field[] | null => ID3_TEXT_LAYOUTS[id] ?? (id.startsWith("T") ? ["text"] : null);
+
+// Rewrites a frame's strings in an encoding the target version allows. UTF-8 and UTF-16BE only exist in
+// v2.4, so this matters when downgrading; frames that are already valid are returned unchanged.
+function reencodeId3Frame(frame: Id3Frame, version: number): Id3Frame {
+  const { data } = frame;
+  const layout = textLayout(frame.id);
+  const source = data[0];
+  if (!layout || frame.opaque || version === 4 || data.length === 0 || source < 2) {
+    return frame;
+  }
+
+  const parts: ({ text: string; terminated: boolean } | Uint8Array)[] = [];
+  let offset = 1;
+  const readText = (toEnd: boolean) => {
+    const { end, next } = toEnd ? { end: data.length, next: data.length } : findId3Terminator(source, data, offset);
+    parts.push({ text: decodeId3Text(source, data.subarray(offset, end)), terminated: !toEnd });
+    offset = next;
+  };
+  const readBytes = (end: number) => {
+    parts.push(data.subarray(offset, Math.min(end, data.length)));
+    offset = Math.min(end, data.length);
+  };
+
+  layout.forEach((field, i) => {
+    if (field === "text") {
+      readText(i === layout.length - 1);
+    } else if (field === "latin1") {
+      readBytes(findId3Terminator(0, data, offset).next);
+    } else if (field === "binary") {
+      readBytes(data.length);
+    } else if (field === "synced") {
+      while (offset < data.length) {
+        readText(false);
+        readBytes(offset + 4);
+      }
+    } else {
+      readBytes(offset + field);
+    }
+  });
+
+  const texts = parts.flatMap((part) => (part instanceof Uint8Array ? [] : [part.text]));
+  const encoding = pickId3Encoding(texts, version);
+  const terminator = new Uint8Array(encoding === 1 ? 2 : 1);
+  const encoded = parts.flatMap((part) =>
+    part instanceof Uint8Array
+      ? [part]
+      : [encodeId3String(part.text, encoding), ...(part.terminated ? [terminator] : [])]
+  );
+  return { ...frame, data: concatBytes([new Uint8Array([encoding]), ...encoded]) };
+}
+
+// ID3v2.2 PIC frames name the image format with 3 letters where APIC uses a MIME type
+const convertPicFrame = (data: Uint8Array): Uint8Array => {
+  const format = readAscii(data, 1, 3).toUpperCase();
+  const mime = encodeAscii(format === "PNG" ? "image/png" : "image/jpeg");
+  return concatBytes([data.subarray(0, 1), mime, new Uint8Array([0]), data.subarray(4)]);
+};
+
+// Frames renamed in v2.4 whose old and new forms hold the same data
+const ID3V24_FRAME_IDS: Record<string, string> = { TYER: "TDRC", TORY: "TDOR", IPLS: "TIPL" };
+const ID3V23_FRAME_IDS = Object.fromEntries(Object.entries(ID3V24_FRAME_IDS).map(([v23, v24]) => [v24, v23]));
+const ID3V22_NAMES = Object.fromEntries(Object.entries(ID3V22_FRAME_IDS).map(([v22, v23]) => [v23, v22]));
+
+const renameId3Frame = (id: string, version: number) => {
+  switch (version) {
+    case 2:
+      return ID3V22_NAMES[id] ?? id;
+    case 3:
+      return ID3V23_FRAME_IDS[id] ?? id;
+    default:
+      return ID3V24_FRAME_IDS[id] ?? id;
+  }
+};
+
+// The status flags sit one bit higher in v2.3 than in v2.4
+const convertStatus = (status: number, from: number, to: number) => {
+  if (from === 3 && to === 4) {
+    return (status >> 1) & 0x70;
+  }
+  if (from === 4 && to === 3) {
+    return (status << 1) & 0xe0;
+  }
+  return status;
+};
+
+const serializeId3Frame = (frame: Id3Frame, version: number) => {
+  const id = renameId3Frame(frame.id, version);
+  if (version === 2) {
+    const header = new Uint8Array(6);
+    header.set(encodeAscii(id), 0);
+    header.set([(frame.data.length >> 16) & 0xff, (frame.data.length >> 8) & 0xff, frame.data.length & 0xff], 3);
+    return concatBytes([header, frame.data]);
+  }
+
+  let data = frame.data;
+  let format = 0;
+  if (frame.opaque) {
+    format = frame.opaque.format;
+  } else if (frame.group !== undefined) {
+    format = version === 4 ? 0x40 : 0x20;
+    data = concatBytes([new Uint8Array([frame.group]), data]);
+  }
+
+  const header = new Uint8Array(10);
+  header.set(encodeAscii(id), 0);
+  if (version === 4) {
+    writeSynchsafe(header, 4, data.length);
+  } else {
+    writeUint32BE(header, 4, data.length);
+  }
+  header[8] = frame.status ?? 0;
+  header[9] = format;
+  return concatBytes([header, data]);
+};
+
+function buildId3Frames(existing: Id3Frame[], sourceVersion: number, edits: TagEdits, version: number) {
+  const edited: Id3Frame[] = [];
+  const replaced = new Set<string>();
+
+  // The first id is written; the others are dropped so no stale copy of the value survives
+  const setText = (ids: string[], value: string | number | undefined) => {
+    ids.forEach((id) => replaced.add(id));
+    if (isSet(value)) {
+      edited.push({ id: ids[0], data: encodeId3Text(String(value).trim(), version) });
+    }
+  };
+
+  if ("title" in edits) setText(["TIT2"], edits.title);
+  if ("artist" in edits) setText(["TPE1"], edits.artist);
+  if ("album" in edits) setText(["TALB"], edits.album);
+  if ("genre" in edits) setText(["TCON"], edits.genre);
+  if ("trackNumber" in edits) setText(["TRCK"], trackText(edits));
+  const date = existing.find((frame) => (frame.id === "TDRC" || frame.id === "TYER") && !frame.opaque);
+  if ("year" in edits && !sameYear(date && decodeId3Text(date.data[0], date.data.subarray(1)), edits.year)) {
+    setText(version === 4 ? ["TDRC", "TYER", "TDAT"] : ["TYER", "TDRC", "TDAT"], edits.year);
+  }
+
+  // Everything else is carried over, including frames this app does not understand
+  const kept = existing
+    .filter((frame) => !replaced.has(frame.id))
+    .map((frame) =>
+      sourceVersion === 2 && version !== 2 && frame.id === "APIC"
+        ? { ...frame, data: convertPicFrame(frame.data) }
+        : frame
+    )
+    .map((frame) => ({
+      ...reencodeId3Frame(frame, version),
+      status: convertStatus(frame.status ?? 0, sourceVersion, version),
+    }));
+
+  return [...edited, ...kept];
+}
+
+export function buildId3v2Tag(frames: Id3Frame[], version: Id3Version | 2, padding = TAG_PADDING): Uint8Array {
+  const body = concatBytes(frames.map((frame) => serializeId3Frame(frame, version)));
+  const header = new Uint8Array(10);
+  header.set(encodeAscii("ID3"), 0);
+  header[3] = version;
+  writeSynchsafe(header, 6, body.length + padding);
+  return concatBytes([header, body, new Uint8Array(padding)]);
+}
+
+const updateId3v1 = (trailer: Uint8Array, edits: TagEdits) => {
+  const updated = new Uint8Array(trailer);
+  const writeField = (offset: number, length: number, value: string | number | undefined) => {
+    updated.fill(0, offset, offset + length);
+    updated.set(encodeAscii(String(value ?? "").slice(0, length)), offset);
+  };
+
+  if ("title" in edits) writeField(3, 30, edits.title);
+  if ("artist" in edits) writeField(33, 30, edits.artist);
+  if ("album" in edits) writeField(63, 30, edits.album);
+  if ("year" in edits) writeField(93, 4, edits.year);
+  if ("trackNumber" in edits && (edits.trackNumber ?? 0) < 256) {
+    updated[125] = 0;
+    updated[126] = edits.trackNumber ?? 0;
+  }
+  if ("genre" in edits) {
+    const index = ID3_GENRES.findIndex((genre) => genre.toLowerCase() === edits.genre?.toLowerCase());
+    updated[127] = index === -1 ? 255 : index;
+  }
+  return updated;
+};
+
+// Replaces the ID3v2 tag at the start of an MP3 file; the audio frames are copied byte for byte.
+// Compressed and encrypted frames, and v2.2 frames without a later name, can only be written in the
+// version they came from, so a tag holding any of them keeps its version.
+export function writeMp3Tags(file: Uint8Array, edits: TagEdits, version: Id3Version = 3): Uint8Array {
+  const oldTagSize = Math.min(getId3TagSize(file), file.length);
+  const oldTag = oldTagSize ? parseId3v2(file.subarray(0, oldTagSize)) : null;
+  const keepsVersion = oldTag?.frames.some((frame) => frame.opaque || frame.id.length === 3);
+  const target = oldTag && keepsVersion ? (oldTag.version as Id3Version | 2) : version;
+  const frames = buildId3Frames(oldTag?.frames || [], oldTag?.version || target, edits, target);
+
+  let audio = file.subarray(oldTagSize);
+  const trailerStart = audio.length - 128;
+  if (trailerStart >= 0 && parseId3v1(audio.subarray(trailerStart))) {
+    audio = concatBytes([audio.subarray(0, trailerStart), updateId3v1(audio.subarray(trailerStart), edits)]);
+  }
+
+  return concatBytes([buildId3v2Tag(frames, target), audio]);
+}
+
+// ---------------------------------------------------------------------------
+// FLAC Vorbis comments
+
+const VORBIS_KEYS: Record<keyof TagEdits, string[]> = {
+  title: ["TITLE"],
+  artist: ["ARTIST"],
+  album: ["ALBUM"],
+  year: ["DATE", "YEAR"],
+  genre: ["GENRE"],
+  trackNumber: ["TRACKNUMBER"],
+  trackTotal: ["TRACKTOTAL", "TOTALTRACKS"],
+};
+
+export function buildVorbisComment(vendor: string, comments: [string, string][]): Uint8Array {
+  const vendorBytes = encodeUtf8(vendor);
+  const entries = comments.map(([key, value]) => encodeUtf8(`${key}=${value}`));
+  const parts: Uint8Array[] = [];
+
+  const length = (value: number) => {
+    const bytes = new Uint8Array(4);
+    writeUint32LE(bytes, 0, value);
+    return bytes;
+  };
+
+  parts.push(length(vendorBytes.length), vendorBytes, length(entries.length));
+  entries.forEach((entry) => parts.push(length(entry.length), entry));
+  return concatBytes(parts);
+}
+
+export function editVorbisComments(comments: [string, string][], edits: TagEdits): [string, string][] {
+  const date = comments.find(([key]) => VORBIS_KEYS.year.includes(key))?.[1];
+  const editedKeys = (Object.keys(edits) as (keyof TagEdits)[]).filter(
+    (key) => key in VORBIS_KEYS && !(key === "year" && sameYear(date, edits.year))
+  );
+  const removed = new Set(editedKeys.flatMap((key) => VORBIS_KEYS[key]));
+  const result = comments.filter(([key]) => !removed.has(key));
+
+  editedKeys.forEach((key) => {
+    const value = edits[key];
+    if (isSet(value)) {
+      result.push([VORBIS_KEYS[key][0], String(value).trim()]);
+    }
+  });
+
+  return result;
+}
+
+const flacBlockHeader = (type: number, isLast: boolean, length: number) =>
+  new Uint8Array([(isLast ? 0x80 : 0) | type, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+
+// Rewrites the FLAC metadata blocks; everything after the last block (the audio frames) is copied unchanged
+export function writeFlacTags(file: Uint8Array, edits: TagEdits): Uint8Array {
+  const start = getId3TagSize(file);
+  if (readAscii(file, start, 4) !== "fLaC") {
+    throw new Error("Not a FLAC file");
+  }
+
+  const blocks: { type: number; body: Uint8Array }[] = [];
+  let offset = start + 4;
+  let isLast = false;
+  while (!isLast && offset + 4 <= file.length) {
+    const type = file[offset] & 0x7f;
+    const length = readUint24BE(file, offset + 1);
+    isLast = (file[offset] & 0x80) !== 0;
+    blocks.push({ type, body: file.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+  const audio = file.subarray(offset);
+
+  const existing = blocks.find((block) => block.type === 4);
+  const { vendor, comments } = existing
+    ? parseVorbisComment(existing.body)
+    : { vendor: "media-editor-app", comments: [] as [string, string][] };
+  const comment = buildVorbisComment(vendor, editVorbisComments(comments, edits));
+
+  // STREAMINFO must stay first; old comment and padding blocks are replaced
+  const kept = blocks.filter((block) => block.type !== 4 && block.type !== 1);
+  const rebuilt = [
+    ...kept.slice(0, 1),
+    { type: 4, body: comment },
+    ...kept.slice(1),
+    { type: 1, body: new Uint8Array(TAG_PADDING) },
+  ];
+
+  return concatBytes([
+    file.subarray(0, start + 4),
+    ...rebuilt.flatMap((block, i) => [
+      flacBlockHeader(block.type, i === rebuilt.length - 1, block.body.length),
+      block.body,
+    ]),
+    audio,
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+
+export const canWriteTags = (fileName: string, header: Uint8Array = new Uint8Array(0)) => {
+  const format = detectFormat(header, fileName);
+  return format === "mp3" || format === "flac";
+};
+
+export function writeTags(file: Uint8Array, fileName: string, edits: TagEdits, id3Version: Id3Version = 3): Uint8Array {
+  switch (detectFormat(file.subarray(0, 12), fileName)) {
+    case "mp3":
+      return writeMp3Tags(file, edits, id3Version);
+    case "flac":
+      return writeFlacTags(file, edits);
+    default:
+      throw new Error(`Writing tags is not supported for ${fileName}`);
+  }
+}
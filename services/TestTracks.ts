@@ -0,0 +1,4 @@
+import { Track } from "@/services/AudioService";
+
+// A minimal track for tests, named after its id
+export const testTrack = (id: string): Track => ({ id, title: id, uri: `file:///${id}.mp3`, fileName: `${id}.mp3` });
@@ -0,0 +1,145 @@
+import { Track } from "@/services/AudioService";
+import { safeFileName, saveExportFile } from "@/services/ExportFile";
+import { readJson, writeJson } from "@/services/JsonStore";
+import { createId } from "@/services/PlaylistService";
+
+// A labelled point on a track's timeline, in milliseconds
+export interface TrackMarker {
+  id: string;
+  position: number;
+  label: string;
+}
+
+export type CueListFormat = "txt" | "csv";
+
+interface TrackMarkersFile {
+  version: number;
+  markers: Record<string, TrackMarker[]>;
+}
+
+const STORE_NAME = "track-markers";
+const STORE_VERSION = 1;
+
+const CUE_LIST_MIME_TYPES: Record<CueListFormat, string> = {
+  txt: "text/plain",
+  csv: "text/csv",
+};
+
+// 01:02:03.250
+export const formatTimestamp = (milliseconds: number) => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const millis = Math.floor(milliseconds % 1000);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+};
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function serializeCueList(format: CueListFormat, track: Track, markers: TrackMarker[]): string {
+  if (format === "csv") {
+    const rows = markers.map((marker) =>
+      [formatTimestamp(marker.position), (marker.position / 1000).toFixed(3), csvField(marker.label)].join(",")
+    );
+    return ["Timestamp,Seconds,Label", ...rows].join("\r\n") + "\r\n";
+  }
+
+  const header = track.artist ? `${track.artist} - ${track.title}` : track.title;
+  return (
+    [header, "", ...markers.map((marker) => `${formatTimestamp(marker.position)}\t${marker.label}`)].join("\n") + "\n"
+  );
+}
+
+// Markers kept per track id, always in timeline order
+class TrackMarkers {
+  private markers: Record<string, TrackMarker[]> = {};
+  private listeners: ((markers: Record<string, TrackMarker[]>) => void)[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = readJson<TrackMarkersFile>(STORE_NAME, { version: STORE_VERSION, markers: {} }).then((file) => {
+        this.markers = { ...file.markers, ...this.markers };
+        this.notifyListeners();
+      });
+    }
+    return this.loaded;
+  }
+
+  subscribe(listener: (markers: Record<string, TrackMarker[]>) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getMarkers(): Record<string, TrackMarker[]> {
+    return this.markers;
+  }
+
+  get(trackId: string): TrackMarker[] {
+    return this.markers[trackId] ?? [];
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener(this.markers));
+  }
+
+  private async commit(trackId: string, markers: TrackMarker[]) {
+    const all = { ...this.markers };
+    if (markers.length > 0) {
+      all[trackId] = [...markers].sort((a, b) => a.position - b.position);
+    } else {
+      delete all[trackId];
+    }
+    this.markers = all;
+    this.notifyListeners();
+    await writeJson(STORE_NAME, { version: STORE_VERSION, markers: all });
+  }
+
+  async add(trackId: string, position: number, label: string): Promise<TrackMarker> {
+    await this.load();
+    const markers = this.get(trackId);
+    const marker: TrackMarker = {
+      id: createId(),
+      position: Math.max(0, Math.round(position)),
+      label: label.trim() || `Marker ${markers.length + 1}`,
+    };
+    await this.commit(trackId, [...markers, marker]);
+    return marker;
+  }
+
+  async update(trackId: string, id: string, changes: Partial<Omit<TrackMarker, "id">>) {
+    await this.load();
+    await this.commit(
+      trackId,
+      this.get(trackId).map((marker) =>
+        marker.id === id
+          ? {
+              ...marker,
+              ...changes,
+              // An emptied label keeps the old one
+              label: changes.label?.trim() || marker.label,
+            }
+          : marker
+      )
+    );
+  }
+
+  async remove(trackId: string, id: string) {
+    await this.load();
+    await this.commit(
+      trackId,
+      this.get(trackId).filter((marker) => marker.id !== id)
+    );
+  }
+}
+
+export const trackMarkers = new TrackMarkers();
+
+export function exportCueList(format: CueListFormat, track: Track): Promise<string | null> {
+  const contents = serializeCueList(format, track, trackMarkers.get(track.id));
+  return saveExportFile(`${safeFileName(track.title)} markers.${format}`, contents, CUE_LIST_MIME_TYPES[format]);
+}
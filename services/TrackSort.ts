@@ -0,0 +1,163 @@
+import { Track } from "@/services/AudioService";
+import { readJson, writeJson } from "@/services/JsonStore";
+import { normalize } from "@/services/SearchEngine";
+
+// "default" keeps the order the view already has: media library order, playlist order or search ranking
+export type SortKey = "default" | "title" | "artist" | "album" | "duration" | "dateAdded" | "playCount";
+export type SortOrder = "asc" | "desc";
+
+export interface SortPreference {
+  key: SortKey;
+  order: SortOrder;
+  grouped: boolean;
+}
+
+export interface TrackSection {
+  title: string;
+  data: Track[];
+}
+
+interface SortPreferencesFile {
+  version: number;
+  views: Record<string, SortPreference>;
+}
+
+export const SORT_KEYS: { key: SortKey; label: string }[] = [
+  { key: "default", label: "Default" },
+  { key: "title", label: "Title" },
+  { key: "artist", label: "Artist" },
+  { key: "album", label: "Album" },
+  { key: "duration", label: "Duration" },
+  { key: "dateAdded", label: "Date Added" },
+  { key: "playCount", label: "Play Count" },
+];
+
+export const DEFAULT_SORT: SortPreference = { key: "default", order: "asc", grouped: false };
+
+// Sections that the A–Z index can jump between
+export const ALPHABET = ["#", ..."ABCDEFGHIJKLMNOPQRSTUVWXYZ"];
+
+const STORE_NAME = "sort-preferences";
+const STORE_VERSION = 1;
+
+// Only a separate word counts, so "A-ha" stays under A
+const LEADING_ARTICLE = /^\s*(the|a|an)\s+(?=\S)/i;
+
+// Text used to sort and group by title, artist or album: "The Beatles" files under B
+export const sortText = (text: string | undefined) => normalize((text || "").replace(LEADING_ARTICLE, ""));
+
+export const isAlphabetical = (key: SortKey) => key === "title" || key === "artist" || key === "album";
+
+const textFor = (track: Track, key: SortKey) =>
+  sortText(key === "title" ? track.title : key === "artist" ? track.artist : track.album);
+
+const letterOf = (text: string) => {
+  const letter = text.charAt(0).toUpperCase();
+  return letter >= "A" && letter <= "Z" ? letter : "#";
+};
+
+const durationGroup = (duration = 0) => {
+  const minutes = duration / 60000;
+  if (minutes < 2) return "Under 2 minutes";
+  if (minutes < 5) return "2–5 minutes";
+  if (minutes < 10) return "5–10 minutes";
+  return "10 minutes or more";
+};
+
+const playCountGroup = (count: number) => {
+  if (count === 0) return "Never played";
+  if (count < 5) return "1–4 plays";
+  if (count < 20) return "5–19 plays";
+  return "20 plays or more";
+};
+
+const monthFormat = new Intl.DateTimeFormat(undefined, { month: "long", year: "numeric" });
+
+export function sortTracks(
+  tracks: Track[],
+  { key, order }: SortPreference,
+  playCounts: Record<string, number>
+): Track[] {
+  if (key === "default") {
+    return order === "asc" ? tracks : [...tracks].reverse();
+  }
+
+  const direction = order === "asc" ? 1 : -1;
+  let compare: (a: Track, b: Track) => number;
+  if (isAlphabetical(key)) {
+    // Texts are computed once up front; a collator per comparison is far too slow for big lists
+    const texts = new Map(tracks.map((track) => [track, textFor(track, key)]));
+    compare = (a, b) => {
+      const textA = texts.get(a)!;
+      const textB = texts.get(b)!;
+      // Titles without letters or digits sort after everything else
+      if (!textA || !textB) return textA ? -1 : textB ? 1 : 0;
+      return textA < textB ? -direction : textA > textB ? direction : 0;
+    };
+  } else {
+    const value = (track: Track) =>
+      key === "duration" ? track.duration || 0 : key === "dateAdded" ? track.dateAdded || 0 : playCounts[track.id] || 0;
+    compare = (a, b) => (value(a) - value(b)) * direction;
+  }
+
+  return [...tracks].sort(compare);
+}
+
+// Splits an already sorted list into sections whose headers suit the sort key
+export function groupTracks(tracks: Track[], key: SortKey, playCounts: Record<string, number>): TrackSection[] {
+  const groupOf = (track: Track) => {
+    switch (key) {
+      case "title":
+      case "artist":
+      case "album":
+        return letterOf(textFor(track, key));
+      case "duration":
+        return durationGroup(track.duration);
+      case "dateAdded":
+        return track.dateAdded ? monthFormat.format(new Date(track.dateAdded)) : "Unknown";
+      case "playCount":
+        return playCountGroup(playCounts[track.id] || 0);
+      default:
+        return "All Tracks";
+    }
+  };
+
+  const sections: TrackSection[] = [];
+  tracks.forEach((track) => {
+    const title = groupOf(track);
+    const last = sections[sections.length - 1];
+    if (last && last.title === title) {
+      last.data.push(track);
+    } else {
+      sections.push({ title, data: [track] });
+    }
+  });
+  return sections;
+}
+
+// Sort choices remembered per library view ("all", a folder or a playlist)
+class SortPreferences {
+  private views: Record<string, SortPreference> = {};
+  private loaded: Promise<void> | null = null;
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = readJson<SortPreferencesFile>(STORE_NAME, { version: STORE_VERSION, views: {} }).then((file) => {
+        this.views = { ...file.views, ...this.views };
+      });
+    }
+    return this.loaded;
+  }
+
+  get(view: string): SortPreference {
+    return this.views[view] ?? DEFAULT_SORT;
+  }
+
+  async set(view: string, preference: SortPreference) {
+    await this.load();
+    this.views = { ...this.views, [view]: preference };
+    await writeJson(STORE_NAME, { version: STORE_VERSION, views: this.views });
+  }
+}
+
+export const sortPreferences = new SortPreferences();
@@ -0,0 +1,144 @@
+import {
+  ByteSource,
+  concatBytes,
+  encodeAscii,
+  readAscii,
+  readUint16LE,
+  readUint32LE,
+  writeUint32LE,
+} from "@/services/Binary";
+
+export interface WavInfo {
+  // 1 for integer PCM, 3 for IEEE float; WAVE_FORMAT_EXTENSIBLE files report their sub-format
+  formatTag: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  // Bytes per sample frame (one sample for every channel)
+  blockAlign: number;
+  // The "fmt " chunk body as found, so clips keep extensible format details
+  formatChunk: Uint8Array;
+  dataOffset: number;
+  dataSize: number;
+  frameCount: number;
+  duration: number;
+}
+
+const WAVE_FORMAT_PCM = 1;
+export const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Clip audio is copied in slices so a long selection is not read with a single huge request
+const COPY_SLICE_BYTES = 1024 * 1024;
+
+export const isWavFileName = (fileName: string) => /\.wav$/i.test(fileName);
+
+function parseFormatChunk(body: Uint8Array) {
+  if (body.length < 16) {
+    throw new Error("WAV format chunk is too short");
+  }
+  let formatTag = readUint16LE(body, 0);
+  // The sub-format GUID starts with the plain format tag
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE && body.length >= 26) {
+    formatTag = readUint16LE(body, 24);
+  }
+  return {
+    formatTag,
+    channels: readUint16LE(body, 2),
+    sampleRate: readUint32LE(body, 4),
+    blockAlign: readUint16LE(body, 12),
+    bitsPerSample: readUint16LE(body, 14),
+  };
+}
+
+// Walks the RIFF chunks up to the sample data; only uncompressed PCM and float files are accepted
+export async function readWavInfo(source: ByteSource): Promise<WavInfo> {
+  const header = await source.read(0, 12);
+  if (readAscii(header, 0, 4) !== "RIFF" || readAscii(header, 8, 4) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format: ReturnType<typeof parseFormatChunk> | null = null;
+  let formatChunk: Uint8Array | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= source.size) {
+    const chunkHeader = await source.read(offset, 8);
+    const id = readAscii(chunkHeader, 0, 4);
+    const size = readUint32LE(chunkHeader, 4);
+
+    if (id === "fmt ") {
+      formatChunk = await source.read(offset + 8, size);
+      format = parseFormatChunk(formatChunk);
+    } else if (id === "data") {
+      if (!format || !formatChunk) {
+        throw new Error("WAV data chunk comes before its format chunk");
+      }
+      if (format.formatTag !== WAVE_FORMAT_PCM && format.formatTag !== WAVE_FORMAT_IEEE_FLOAT) {
+        throw new Error(`Unsupported WAV encoding ${format.formatTag}`);
+      }
+      if (format.channels === 0 || format.sampleRate === 0 || format.blockAlign === 0) {
+        throw new Error("Invalid WAV format chunk");
+      }
+
+      const dataOffset = offset + 8;
+      // Recorders that never finished writing leave the size at 0 or 0xFFFFFFFF; trust the file length then
+      const available = source.size - dataOffset;
+      const declared = size === 0 || size === 0xffffffff ? available : Math.min(size, available);
+      const frameCount = Math.floor(declared / format.blockAlign);
+      return {
+        ...format,
+        formatChunk,
+        dataOffset,
+        dataSize: frameCount * format.blockAlign,
+        frameCount,
+        duration: (frameCount / format.sampleRate) * 1000,
+      };
+    }
+
+    // Chunks are padded to an even length
+    offset += 8 + size + (size & 1);
+  }
+
+  throw new Error("WAV file has no data chunk");
+}
+
+// Byte range of the sample frames between two positions, snapped to whole frames
+export function clipByteRange(info: WavInfo, start: number, end: number) {
+  const toFrame = (position: number) =>
+    Math.min(info.frameCount, Math.max(0, Math.round((position / 1000) * info.sampleRate)));
+  const startFrame = toFrame(Math.min(start, end));
+  const endFrame = toFrame(Math.max(start, end));
+  return {
+    offset: info.dataOffset + startFrame * info.blockAlign,
+    length: (endFrame - startFrame) * info.blockAlign,
+    duration: ((endFrame - startFrame) / info.sampleRate) * 1000,
+  };
+}
+
+const chunk = (id: string, body: Uint8Array) => {
+  const header = new Uint8Array(8);
+  header.set(encodeAscii(id), 0);
+  writeUint32LE(header, 4, body.length);
+  // A pad byte keeps the next chunk aligned; it is not counted in the chunk size
+  return body.length % 2 === 1 ? [header, body, new Uint8Array(1)] : [header, body];
+};
+
+// A minimal WAV file: the RIFF header, the original format chunk and the samples
+export function buildWavFile(formatChunk: Uint8Array, samples: Uint8Array): Uint8Array {
+  const body = concatBytes([encodeAscii("WAVE"), ...chunk("fmt ", formatChunk), ...chunk("data", samples)]);
+  return concatBytes(chunk("RIFF", body));
+}
+
+export async function extractWavClip(source: ByteSource, info: WavInfo, start: number, end: number) {
+  const range = clipByteRange(info, start, end);
+  if (range.length === 0) {
+    throw new Error("The clip is empty");
+  }
+
+  const slices: Uint8Array[] = [];
+  for (let offset = 0; offset < range.length; offset += COPY_SLICE_BYTES) {
+    slices.push(await source.read(range.offset + offset, Math.min(COPY_SLICE_BYTES, range.length - offset)));
+  }
+  return buildWavFile(info.formatChunk, concatBytes(slices));
+}
@@ -0,0 +1,191 @@
+import { Track } from "@/services/AudioService";
+import { ByteSource } from "@/services/Binary";
+import { fileSource } from "@/services/FileBytes";
+import { isWavFileName, readWavInfo, WAVE_FORMAT_IEEE_FLOAT, WavInfo } from "@/services/WavFile";
+import * as FileSystem from "expo-file-system";
+
+// Lowest and highest sample per bucket, from -1 to 1, mixed across channels
+export interface WaveformPeaks {
+  min: number[];
+  max: number[];
+}
+
+const WAVEFORM_DIRECTORY = `${FileSystem.cacheDirectory}waveforms/`;
+
+export const PEAK_BUCKETS = 200;
+
+// Buckets are read in chunks of at most this many frames, so a long bucket never needs one huge read
+const CHUNK_FRAMES = 65536;
+
+const cachePrefix = (trackId: string) => `${trackId.replace(/[^a-zA-Z0-9_-]/g, "_")}-`;
+// The file's size and modification time are part of the name, so a replaced file gets new peaks
+const cacheFileName = (trackId: string, size: number, modificationTime: number) =>
+  `${cachePrefix(trackId)}${size}-${Math.round(modificationTime)}.json`;
+const isCacheFileOf = (trackId: string, name: string) =>
+  name.startsWith(cachePrefix(trackId)) && /^\d+-\d+\.json$/.test(name.slice(cachePrefix(trackId).length));
+
+// Reads one sample, scaled to -1..1, from the given byte offset
+function sampleDecoder(info: WavInfo): (view: DataView, offset: number) => number {
+  const bytesPerSample = info.blockAlign / info.channels;
+  if (info.formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    return bytesPerSample === 8
+      ? (view, offset) => view.getFloat64(offset, true)
+      : (view, offset) => view.getFloat32(offset, true);
+  }
+  switch (bytesPerSample) {
+    case 1:
+      // 8-bit PCM is unsigned
+      return (view, offset) => (view.getUint8(offset) - 128) / 128;
+    case 2:
+      return (view, offset) => view.getInt16(offset, true) / 32768;
+    case 3:
+      return (view, offset) => ((view.getInt8(offset + 2) << 16) | view.getUint16(offset, true)) / 8388608;
+    case 4:
+      return (view, offset) => view.getInt32(offset, true) / 2147483648;
+    default:
+      throw new Error(`Unsupported sample size ${bytesPerSample}`);
+  }
+}
+
+// Peaks of whole sample frames in `bytes`, across every channel
+export function framePeaks(bytes: Uint8Array, info: WavInfo): [number, number] {
+  const decode = sampleDecoder(info);
+  const bytesPerSample = info.blockAlign / info.channels;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - (bytes.length % info.blockAlign);
+
+  let min = 0;
+  let max = 0;
+  for (let offset = 0; offset < end; offset += bytesPerSample) {
+    const sample = decode(view, offset);
+    if (sample < min) min = sample;
+    if (sample > max) max = sample;
+  }
+  return [Math.max(-1, min), Math.min(1, max)];
+}
+
+export async function computePeaks(
+  source: ByteSource,
+  info: WavInfo,
+  bucketCount = PEAK_BUCKETS
+): Promise<WaveformPeaks> {
+  const peaks: WaveformPeaks = { min: [], max: [] };
+  const framesPerBucket = info.frameCount / bucketCount;
+
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    // Every frame of the bucket is looked at; with fewer frames than buckets, neighbours share a frame
+    const startFrame = Math.min(Math.floor(bucket * framesPerBucket), Math.max(0, info.frameCount - 1));
+    const endFrame = Math.min(info.frameCount, Math.max(startFrame + 1, Math.floor((bucket + 1) * framesPerBucket)));
+    let min = 0;
+    let max = 0;
+    for (let frame = startFrame; frame < endFrame; frame += CHUNK_FRAMES) {
+      const frames = Math.min(CHUNK_FRAMES, endFrame - frame);
+      const [chunkMin, chunkMax] = framePeaks(
+        await source.read(info.dataOffset + frame * info.blockAlign, frames * info.blockAlign),
+        info
+      );
+      min = Math.min(min, chunkMin);
+      max = Math.max(max, chunkMax);
+    }
+    // Three decimals are far finer than any bar height and keep the cache file small
+    peaks.min.push(Math.round(min * 1000) / 1000);
+    peaks.max.push(Math.round(max * 1000) / 1000);
+  }
+  return peaks;
+}
+
+// Waveform peaks per track; only WAV files have PCM data that can be read without a decoder
+class WaveformService {
+  // Keyed like the cache files, by track id, size and modification time, so a rewritten file is read again.
+  // null records "no waveform", so a file that cannot be read is not tried again.
+  private resolved = new Map<string, WaveformPeaks | null>();
+  private pending = new Map<string, Promise<WaveformPeaks | null>>();
+  // Key of the version of each track last asked for
+  private latestKeys = new Map<string, string>();
+  private directoryReady: Promise<void> | null = null;
+
+  private ensureDirectory() {
+    if (!this.directoryReady) {
+      this.directoryReady = FileSystem.makeDirectoryAsync(WAVEFORM_DIRECTORY, { intermediates: true }).catch(
+        () => undefined
+      );
+    }
+    return this.directoryReady;
+  }
+
+  // Peaks of the version of the track last asked for, to show while getPeaks checks the file
+  getCachedPeaks(trackId: string): WaveformPeaks | null | undefined {
+    const key = this.latestKeys.get(trackId);
+    return key === undefined ? undefined : this.resolved.get(key);
+  }
+
+  async getPeaks(track: Track): Promise<WaveformPeaks | null> {
+    if (!isWavFileName(track.fileName)) {
+      return null;
+    }
+
+    let key: string;
+    try {
+      const file = await FileSystem.getInfoAsync(track.uri);
+      if (!file.exists) {
+        return null;
+      }
+      key = cacheFileName(track.id, file.size, file.modificationTime ?? 0);
+    } catch (error) {
+      console.error(`Error loading waveform for ${track.fileName}:`, error);
+      return null;
+    }
+
+    const previous = this.latestKeys.get(track.id);
+    if (previous !== undefined && previous !== key) {
+      this.resolved.delete(previous);
+    }
+    this.latestKeys.set(track.id, key);
+    if (this.resolved.has(key)) {
+      return this.resolved.get(key)!;
+    }
+
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.resolve(track, key)
+        .catch((error) => {
+          console.error(`Error loading waveform for ${track.fileName}:`, error);
+          return null;
+        })
+        .then((peaks) => {
+          this.resolved.set(key, peaks);
+          this.pending.delete(key);
+          return peaks;
+        });
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  // `fileName` is the cache file for the current version of the track
+  private async resolve(track: Track, fileName: string): Promise<WaveformPeaks | null> {
+    await this.ensureDirectory();
+    const uri = `${WAVEFORM_DIRECTORY}${fileName}`;
+    if ((await FileSystem.getInfoAsync(uri)).exists) {
+      return JSON.parse(await FileSystem.readAsStringAsync(uri)) as WaveformPeaks;
+    }
+
+    const source = await fileSource(track.uri);
+    const peaks = await computePeaks(source, await readWavInfo(source));
+    await FileSystem.writeAsStringAsync(uri, JSON.stringify(peaks));
+    await this.removeStale(track.id, fileName);
+    return peaks;
+  }
+
+  // Drops peaks cached for earlier versions of the file
+  private async removeStale(trackId: string, current: string) {
+    const names = await FileSystem.readDirectoryAsync(WAVEFORM_DIRECTORY).catch(() => [] as string[]);
+    await Promise.all(
+      names
+        .filter((name) => name !== current && isCacheFileOf(trackId, name))
+        .map((name) => FileSystem.deleteAsync(`${WAVEFORM_DIRECTORY}${name}`, { idempotent: true }))
+    );
+  }
+}
+
+export const waveformService = new WaveformService();
@@ -0,0 +1,184 @@
+import { AudioService, AudioServiceDeps } from "@/services/AudioService";
+import { FakeBackend } from "@/services/FakeBackend";
+import { PlaybackSession } from "@/services/PlaybackSession";
+import { PlaybackSettings } from "@/services/PlaybackSettings";
+import { testTrack } from "@/services/TestTracks";
+
+const [a, b, c] = ["a", "b", "c"].map(testTrack);
+
+// Every test file is 30 seconds long
+const durations = Object.fromEntries([a, b, c].map((t) => [t.uri, 30000]));
+
+// In-memory stand-ins for the stores, so nothing touches the file system
+const memoryDeps = (backend: FakeBackend, settings: Partial<PlaybackSettings> = {}) => {
+  let session: PlaybackSession | null = null;
+  const deps: AudioServiceDeps = {
+    backend,
+    playbackSettings: { load: async () => {}, get: () => ({ fadeIn: 0, fadeOut: 0, crossfade: 0, ...settings }) },
+    playbackRates: { load: async () => {}, resolve: () => null, remember: async () => {} },
+    loopRegions: { load: async () => {}, get: () => null, save: async () => {} },
+    resumePositions: {
+      load: async () => {},
+      getResumePoint: () => null,
+      record: () => {},
+      clear: async () => {},
+      save: async () => {},
+    },
+    playStats: { recordPlay: jest.fn() },
+    readSession: async () => session,
+    writeSession: async (saved) => {
+      session = saved;
+    },
+    onBackground: () => {},
+  };
+  return deps;
+};
+
+// Lets the promises started by a status update or timer run before time moves on
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// Moves the fake clock forward in small steps, settling in between as real time would
+const advance = async (backend: FakeBackend, milliseconds: number) => {
+  for (let passed = 0; passed < milliseconds; passed += 50) {
+    backend.advance(Math.min(50, milliseconds - passed));
+    await settle();
+  }
+};
+
+const setUp = (settings: Partial<PlaybackSettings> = {}) => {
+  const backend = new FakeBackend(durations);
+  const deps = memoryDeps(backend, settings);
+  return { backend, deps, service: new AudioService(deps) };
+};
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("AudioService queue", () => {
+  it("moves through the queue and stops after the last track", async () => {
+    const { backend, deps, service } = setUp();
+    await service.playQueue([a, b], 0, true);
+    expect(service.getState()).toMatchObject({ phase: "playing", currentTrack: a, currentIndex: 0 });
+
+    await advance(backend, 30500);
+    expect(service.getState()).toMatchObject({ phase: "playing", currentTrack: b, currentIndex: 1 });
+    expect(deps.playStats.recordPlay).toHaveBeenCalledWith("a");
+
+    await advance(backend, 30500);
+    expect(service.getState()).toMatchObject({ isPlaying: false, currentTrack: b, position: 0 });
+  });
+
+  it("repeats the current track when set to", async () => {
+    const { backend, service } = setUp();
+    await service.playQueue([a, b], 0, true);
+    service.setRepeatMode("one");
+
+    await advance(backend, 31000);
+    expect(service.getState()).toMatchObject({ isPlaying: true, currentTrack: a });
+  });
+
+  it("lets go of a preloaded track that is not played next", async () => {
+    const { backend, service } = setUp();
+    await service.playQueue([a, b, c], 0, true);
+    await advance(backend, 25000);
+    const preloaded = backend.sounds.find((sound) => sound.uri === b.uri)!;
+
+    await service.skipTo(2);
+    expect(service.getState().currentTrack).toBe(c);
+    expect(preloaded.uri).toBeNull();
+  });
+
+  it("reports a track that cannot be loaded and can go on to the next one", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const { service } = setUp();
+    const missing = testTrack("missing");
+    await service.playQueue([missing, a], 0, true);
+    expect(service.getState()).toMatchObject({ phase: "error", error: "Could not play missing.mp3" });
+
+    await service.next();
+    expect(service.getState()).toMatchObject({ phase: "ready", currentTrack: a, error: null });
+  });
+
+  it("restores the saved queue from the library, leaving out tracks that are gone", async () => {
+    const first = setUp();
+    await first.service.playQueue([a, b, c], 2);
+    await first.service.saveSession();
+
+    const second = new AudioService({ ...first.deps, backend: new FakeBackend(durations) });
+    await second.restoreSession([b, c]);
+    expect(second.getState()).toMatchObject({ phase: "ready", queue: [b, c], currentIndex: 1, currentTrack: c });
+  });
+});
+
+describe("AudioService fades", () => {
+  it("fades in from silence when playback starts", async () => {
+    const { backend, service } = setUp({ fadeIn: 1000 });
+    await service.playQueue([a], 0, true);
+    const [sound] = backend.sounds;
+
+    await advance(backend, 500);
+    expect(sound.volume).toBeGreaterThan(0.3);
+    expect(sound.volume).toBeLessThan(0.7);
+
+    await advance(backend, 600);
+    expect(sound.volume).toBe(1);
+  });
+
+  it("fades out before pausing", async () => {
+    const { backend, service } = setUp({ fadeOut: 1000 });
+    await service.playQueue([a], 0, true);
+    const [sound] = backend.sounds;
+
+    const paused = service.pause();
+    await advance(backend, 500);
+    expect(sound.isPlaying).toBe(true);
+
+    await advance(backend, 600);
+    await paused;
+    expect(sound.isPlaying).toBe(false);
+  });
+
+  it("overlaps the end of a track with the start of the next", async () => {
+    const { backend, service } = setUp({ crossfade: 4000 });
+    await service.playQueue([a, b], 0, true);
+    const [first] = backend.sounds;
+
+    await advance(backend, 27000);
+    const second = backend.sounds.find((sound) => sound.uri === b.uri)!;
+    expect(service.getState().currentTrack).toBe(b);
+    expect(first.isPlaying && second.isPlaying).toBe(true);
+
+    await advance(backend, 3500);
+    expect(first.uri).toBeNull();
+    expect(second.volume).toBe(1);
+  });
+});
+
+describe("AudioService sleep timer", () => {
+  it("fades out and pauses when the time is up", async () => {
+    const { backend, deps, service } = setUp();
+    await service.playQueue([a, b, c], 0, true);
+    service.setRepeatMode("all");
+    // Started part way into the track, so the time is not up just as a track ends
+    await advance(backend, 5000);
+    service.startSleepTimer({ minutes: 1 });
+
+    await advance(backend, 40000);
+    const sound = backend.sounds.find((s) => s.isPlaying)!;
+    expect(sound.volume).toBeLessThan(0.5);
+
+    await advance(backend, 21000);
+    expect(service.getState()).toMatchObject({ isPlaying: false, sleepTimer: null });
+    // Saved like any other pause
+    const { currentTrack, position } = service.getState();
+    expect(await deps.readSession()).toMatchObject({ track: currentTrack, position });
+  });
+
+  it("stops at the end of the track when set to", async () => {
+    const { backend, service } = setUp();
+    await service.playQueue([a, b], 0, true);
+    service.startSleepTimer({ tracks: 1 });
+
+    await advance(backend, 31000);
+    expect(service.getState()).toMatchObject({ isPlaying: false, currentTrack: a, sleepTimer: null });
+  });
+});
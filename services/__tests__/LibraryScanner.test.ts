@@ -0,0 +1,45 @@
+import { Track } from "@/services/AudioService";
+import { libraryScanner } from "@/services/LibraryScanner";
+import { assetToTrack } from "@/services/LibraryService";
+
+jest.mock("@/services/LibraryIndex", () => ({
+  readLibraryIndex: async () => [],
+  writeLibraryIndex: async () => {},
+}));
+
+// One file on the device, which writing its tags leaves with the same modification time
+jest.mock("@/services/LibraryService", () => ({
+  SCAN_CONCURRENCY: 4,
+  loadAlbumTitles: async () => new Map(),
+  getAudioAssetPage: async () => ({
+    assets: [{ id: "song", filename: "song.mp3", modificationTime: 100 }],
+    totalCount: 1,
+    endCursor: "song",
+    hasNextPage: false,
+  }),
+  forEachWithConcurrency: async <T>(items: T[], _limit: number, fn: (item: T) => Promise<void>) => {
+    for (const item of items) {
+      await fn(item);
+    }
+  },
+  assetToTrack: jest.fn(async () => ({
+    id: "song",
+    title: "Old title",
+    uri: "file:///song.mp3",
+    fileName: "song.mp3",
+  })),
+}));
+
+describe("libraryScanner", () => {
+  it("keeps edited tags through a rescan of the unchanged file", async () => {
+    await libraryScanner.start();
+    const [scanned] = libraryScanner.getState().tracks;
+    const edited: Track = { ...scanned, title: "New title" };
+
+    libraryScanner.setTracks([edited]);
+    await libraryScanner.start();
+
+    expect(libraryScanner.getState().tracks).toEqual([edited]);
+    expect(assetToTrack).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { audioService } from "@/services/AppAudio";
+import { AudioState } from "@/services/AudioService";
+import { mediaSession, playbackService } from "@/services/MediaSession";
+import { testTrack } from "@/services/TestTracks";
+import TrackPlayer, { Event } from "react-native-track-player";
+
+jest.mock("react-native-track-player", () => {
+  const resolved = () => jest.fn(async () => {});
+  return {
+    __esModule: true,
+    default: {
+      setupPlayer: resolved(),
+      updateOptions: resolved(),
+      setVolume: resolved(),
+      load: resolved(),
+      reset: resolved(),
+      play: resolved(),
+      pause: resolved(),
+      seekTo: resolved(),
+      setRate: resolved(),
+      updateNowPlayingMetadata: resolved(),
+      addEventListener: jest.fn(),
+    },
+    AppKilledPlaybackBehavior: { StopPlaybackAndRemoveNotification: "stop-playback-and-remove-notification" },
+    Capability: {},
+    Event: { RemotePlay: "remote-play", RemotePause: "remote-pause" },
+  };
+});
+
+// Stands in for the app's player; tests push states through the subscriber MediaSession registers
+jest.mock("@/services/AppAudio", () => {
+  const listeners: ((state: unknown) => void)[] = [];
+  return {
+    audioService: {
+      listeners,
+      subscribe: jest.fn((listener: (state: unknown) => void) => listeners.push(listener)),
+      getState: jest.fn(() => ({ currentTrack: null, isPlaying: false, position: 0, duration: 0, rate: 1 })),
+      play: jest.fn(),
+      pause: jest.fn(),
+    },
+  };
+});
+
+jest.mock("@/services/ArtworkService", () => ({
+  artworkService: { getCachedUri: () => null, getArtworkUri: async () => null },
+}));
+
+const player = jest.mocked(TrackPlayer);
+const state = (updates: Partial<AudioState>) =>
+  ({ currentTrack: null, isPlaying: false, position: 0, duration: 30000, rate: 1, ...updates }) as AudioState;
+
+const publish = (updates: Partial<AudioState>) =>
+  (audioService as unknown as { listeners: ((state: AudioState) => void)[] }).listeners.forEach((listener) =>
+    listener(state(updates))
+  );
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeAll(() => mediaSession.start());
+
+afterEach(() => jest.clearAllMocks());
+
+describe("MediaSession", () => {
+  it("mutes TrackPlayer's own player", () => {
+    expect(player.setVolume).toHaveBeenCalledWith(0);
+  });
+
+  it("plays and pauses TrackPlayer along with AudioService", async () => {
+    const song = testTrack("song");
+    publish({ currentTrack: song, isPlaying: true });
+    await settle();
+    expect(player.load).toHaveBeenCalledWith(expect.objectContaining({ url: song.uri }));
+    expect(player.play).toHaveBeenCalledTimes(1);
+
+    publish({ currentTrack: song, isPlaying: false, position: 1000 });
+    await settle();
+    expect(player.pause).toHaveBeenCalledTimes(1);
+    expect(player.seekTo).toHaveBeenLastCalledWith(1);
+  });
+
+  it("publishes one state at a time, skipping ones that were overtaken", async () => {
+    let finishLoad = () => {};
+    player.load.mockImplementationOnce(() => new Promise<void>((resolve) => (finishLoad = resolve)));
+    const [first, second, third] = ["first", "second", "third"].map(testTrack);
+
+    publish({ currentTrack: first, isPlaying: true });
+    publish({ currentTrack: second, isPlaying: true });
+    publish({ currentTrack: third, isPlaying: true });
+    await settle();
+    expect(player.load).toHaveBeenCalledTimes(1);
+
+    finishLoad();
+    await settle();
+    expect(player.load.mock.calls.map(([loaded]) => loaded.url)).toEqual([first.uri, third.uri]);
+    expect(player.updateNowPlayingMetadata).toHaveBeenLastCalledWith(expect.objectContaining({ title: "third" }));
+  });
+});
+
+describe("playbackService", () => {
+  it("maps remote play and pause to AudioService's play and pause", async () => {
+    await playbackService();
+    const handler = (event: string) => player.addEventListener.mock.calls.find(([name]) => name === event)![1];
+
+    (handler(Event.RemotePlay) as () => void)();
+    expect(audioService.play).toHaveBeenCalled();
+    expect(audioService.pause).not.toHaveBeenCalled();
+
+    (handler(Event.RemotePause) as () => void)();
+    expect(audioService.pause).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,250 @@
+import { bytesSource, concatBytes, encodeAscii, encodeUtf8, writeUint32BE } from "@/services/Binary";
+import { decodeId3Text, parseId3v2, readTags } from "@/services/TagReader";
+import { writeFlacTags, writeMp3Tags, writeTags } from "@/services/TagWriter";
+
+const synchsafe = (value: number) =>
+  new Uint8Array([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+
+const frame = (version: number, id: string, data: Uint8Array, status = 0, format = 0) => {
+  if (version === 2) {
+    const size = new Uint8Array([(data.length >> 16) & 0xff, (data.length >> 8) & 0xff, data.length & 0xff]);
+    return concatBytes([encodeAscii(id), size, data]);
+  }
+  const size = new Uint8Array(4);
+  if (version === 4) {
+    size.set(synchsafe(data.length));
+  } else {
+    writeUint32BE(size, 0, data.length);
+  }
+  return concatBytes([encodeAscii(id), size, new Uint8Array([status, format]), data]);
+};
+
+const tag = (version: number, frames: Uint8Array[]) => {
+  const body = concatBytes([...frames, new Uint8Array(16)]);
+  return concatBytes([encodeAscii("ID3"), new Uint8Array([version, 0, 0]), synchsafe(body.length), body]);
+};
+
+const text = (encoding: number, value: string) =>
+  concatBytes([new Uint8Array([encoding]), encoding === 3 ? encodeUtf8(value) : encodeAscii(value)]);
+
+// Three MPEG-1 Layer III frames (128 kbps, 44.1 kHz, 417 bytes each) with distinct contents
+const audio = concatBytes(
+  [0, 1, 2].map((n) => {
+    const mpegFrame = Uint8Array.from({ length: 417 }, (_, i) => (i * 7 + n) & 0xff);
+    mpegFrame.set([0xff, 0xfb, 0x90, 0x00]);
+    return mpegFrame;
+  })
+);
+
+const id3v1 = () => {
+  const trailer = new Uint8Array(128);
+  trailer.set(encodeAscii("TAGOld title"));
+  return trailer;
+};
+
+const framesOf = (file: Uint8Array) => parseId3v2(file)?.frames ?? [];
+const frameText = (file: Uint8Array, id: string) => {
+  const found = framesOf(file).find((f) => f.id === id);
+  return found && decodeId3Text(found.data[0], found.data.subarray(1));
+};
+
+describe("writeMp3Tags", () => {
+  it("copies the audio frames byte for byte and only edits the ID3v1 fields asked for", async () => {
+    const original = concatBytes([tag(3, [frame(3, "TIT2", text(0, "Old title"))]), audio, id3v1()]);
+    const written = writeMp3Tags(original, { title: "New title", artist: "Somebody" });
+    const tagSize = parseId3v2(written)!.size;
+
+    expect(written.subarray(tagSize, tagSize + audio.length)).toEqual(audio);
+    expect(written).toHaveLength(tagSize + audio.length + 128);
+    expect(await readTags(bytesSource(written), "song.mp3")).toMatchObject({ title: "New title", artist: "Somebody" });
+
+    const trailer = written.subarray(written.length - 128);
+    expect(decodeId3Text(0, trailer.subarray(3, 12))).toBe("New title");
+    expect(trailer.subarray(93, 97)).toEqual(new Uint8Array(4));
+  });
+
+  it("re-encodes every text-carrying frame when downgrading v2.4 to v2.3", () => {
+    const comment = concatBytes([new Uint8Array([3]), encodeAscii("eng"), encodeUtf8("Note\0Grüße")]);
+    const lyrics = concatBytes([new Uint8Array([3]), encodeAscii("eng"), encodeUtf8("\0Ὕμνος")]);
+    const original = concatBytes([
+      tag(4, [
+        frame(4, "TIT2", text(3, "Café")),
+        frame(4, "COMM", comment),
+        frame(4, "USLT", lyrics),
+        frame(4, "TXXX", text(3, "MOOD\0calm")),
+        frame(4, "TDRC", text(3, "1999")),
+      ]),
+      audio,
+    ]);
+
+    const written = writeMp3Tags(original, {}, 3);
+    const frames = framesOf(written);
+
+    expect(parseId3v2(written)!.version).toBe(3);
+    expect(frames.map((f) => f.id)).toEqual(["TIT2", "COMM", "USLT", "TXXX", "TYER"]);
+    frames.forEach((f) => expect(f.data[0]).toBeLessThan(2));
+
+    const [, comm, uslt] = frames;
+    expect(readCommentParts(comm.data)).toEqual(["eng", "Note", "Grüße"]);
+    // Greek needs UTF-16, with a BOM before each string and two-byte terminators
+    expect(uslt.data[0]).toBe(1);
+    expect(readCommentParts(uslt.data)).toEqual(["eng", "", "Ὕμνος"]);
+    expect(frameText(written, "TIT2")).toBe("Café");
+    expect(frameText(written, "TXXX")).toBe("MOOD\0calm");
+    expect(written.subarray(written.length - audio.length)).toEqual(audio);
+  });
+
+  it("converts every ID3v2.2 frame that has a later name", () => {
+    const picture = concatBytes([new Uint8Array([0]), encodeAscii("PNG"), new Uint8Array([3, 0, 1, 2, 3])]);
+    const original = concatBytes([
+      tag(2, [
+        frame(2, "TT2", text(0, "Title")),
+        frame(2, "ULT", concatBytes([new Uint8Array([0]), encodeAscii("eng\0Some lyrics")])),
+        frame(2, "COM", concatBytes([new Uint8Array([0]), encodeAscii("eng\0A comment")])),
+        frame(2, "TXX", text(0, "KEY\0value")),
+        frame(2, "PIC", picture),
+      ]),
+      audio,
+    ]);
+
+    const written = writeMp3Tags(original, { album: "Album" }, 3);
+
+    expect(parseId3v2(written)!.version).toBe(3);
+    expect(framesOf(written).map((f) => f.id)).toEqual(["TALB", "TIT2", "USLT", "COMM", "TXXX", "APIC"]);
+    expect(frameText(written, "USLT")).toBe("eng\0Some lyrics");
+    const apic = framesOf(written).find((f) => f.id === "APIC")!;
+    expect(apic.data).toEqual(concatBytes([new Uint8Array([0]), encodeAscii("image/png\0"), picture.subarray(4)]));
+  });
+
+  it("keeps ID3v2.2 when a frame has no later name", () => {
+    const crm = frame(2, "CRM", encodeAscii("owner\0about\0secret"));
+    const original = concatBytes([tag(2, [frame(2, "TT2", text(0, "Title")), crm]), audio]);
+
+    const written = writeMp3Tags(original, { title: "Renamed" }, 4);
+    const parsed = parseId3v2(written)!;
+
+    expect(parsed.version).toBe(2);
+    expect(parsed.frames.map((f) => f.id)).toEqual(["TIT2", "CRM"]);
+    expect(frameText(written, "TIT2")).toBe("Renamed");
+    const expected = concatBytes([frame(2, "TT2", text(0, "Renamed")), crm]);
+    expect(written.subarray(10, 10 + expected.length)).toEqual(expected);
+  });
+
+  it("carries compressed and encrypted frames through unchanged in their own version", async () => {
+    // Compressed with a data length indicator, as v2.4 requires
+    const compressed = frame(4, "PRIV", Uint8Array.from([0, 0, 1, 0, 0x78, 0x9c, 1, 2, 3]), 0x20, 0x09);
+    const encrypted = frame(4, "TIT2", Uint8Array.from([0x80, 9, 8, 7, 6]), 0, 0x04);
+    const original = concatBytes([tag(4, [compressed, frame(4, "TALB", text(3, "Album")), encrypted]), audio]);
+
+    const written = writeMp3Tags(original, { artist: "Artist" }, 3);
+    const body = written.subarray(10);
+
+    expect(parseId3v2(written)!.version).toBe(4);
+    expect(framesOf(written).map((f) => f.id)).toEqual(["TPE1", "PRIV", "TALB", "TIT2"]);
+    expect(indexOfBytes(body, compressed)).toBeGreaterThan(-1);
+    expect(indexOfBytes(body, encrypted)).toBeGreaterThan(-1);
+    // The encrypted title cannot be read, so it is not reported as the title
+    expect((await readTags(bytesSource(written), "song.mp3")).title).toBeUndefined();
+  });
+
+  it("keeps status flags and grouping when converting between v2.3 and v2.4", () => {
+    const grouped = frame(3, "TPE1", concatBytes([new Uint8Array([7]), text(0, "Artist")]), 0x20, 0x20);
+    const original = concatBytes([tag(3, [grouped]), audio]);
+
+    const upgraded = writeMp3Tags(original, {}, 4);
+    const [artist] = framesOf(upgraded);
+    expect(artist).toMatchObject({ id: "TPE1", status: 0x10, group: 7 });
+    expect(upgraded[10 + 9]).toBe(0x40);
+
+    const downgraded = writeMp3Tags(upgraded, {}, 3);
+    expect(downgraded.subarray(10, 10 + grouped.length)).toEqual(grouped);
+  });
+
+  it("keeps a full date unless its year is changed", () => {
+    const date = frame(4, "TDRC", text(3, "2001-05-03"));
+    const original = concatBytes([tag(4, [date]), audio]);
+
+    expect(indexOfBytes(writeMp3Tags(original, { year: 2001 }, 4), date)).toBeGreaterThan(-1);
+    expect(frameText(writeMp3Tags(original, { year: 2002 }, 4), "TDRC")).toBe("2002");
+  });
+
+  it("leaves unknown frames as they are", () => {
+    const priv = frame(3, "PRIV", concatBytes([encodeAscii("com.example\0"), Uint8Array.from([0, 3, 0xff, 0])]));
+    const written = writeTags(concatBytes([tag(3, [priv]), audio]), "song.mp3", { title: "Title" });
+
+    expect(indexOfBytes(written, priv)).toBeGreaterThan(-1);
+  });
+});
+
+describe("writeFlacTags", () => {
+  const block = (type: number, body: Uint8Array, isLast = false) =>
+    concatBytes([new Uint8Array([(isLast ? 0x80 : 0) | type, body.length >> 16, body.length >> 8, body.length]), body]);
+
+  const vorbisComment = (entries: string[]) => {
+    const length = (value: number) => new Uint8Array([value, value >> 8, value >> 16, value >> 24]);
+    const vendor = encodeUtf8("reference libFLAC");
+    return concatBytes([
+      length(vendor.length),
+      vendor,
+      length(entries.length),
+      ...entries.flatMap((entry) => [length(encodeUtf8(entry).length), encodeUtf8(entry)]),
+    ]);
+  };
+
+  const streamInfo = Uint8Array.from({ length: 34 }, (_, i) => i);
+  const seekTable = Uint8Array.from({ length: 18 }, (_, i) => 100 + i);
+  const flacAudio = Uint8Array.from({ length: 2000 }, (_, i) => (i * 13) & 0xff);
+
+  it("edits the comments and copies the audio frames byte for byte", async () => {
+    const original = concatBytes([
+      encodeAscii("fLaC"),
+      block(0, streamInfo),
+      block(4, vorbisComment(["TITLE=Old", "ARTIST=Kept", "COMMENT=Also kept"])),
+      block(3, seekTable),
+      block(1, new Uint8Array(64), true),
+      flacAudio,
+    ]);
+
+    const written = writeFlacTags(original, { title: "New", year: 2001 });
+
+    expect(written.subarray(written.length - flacAudio.length)).toEqual(flacAudio);
+    expect(written.subarray(4, 8 + streamInfo.length)).toEqual(block(0, streamInfo));
+    expect(indexOfBytes(written, block(3, seekTable))).toBeGreaterThan(-1);
+    expect(await readTags(bytesSource(written), "song.flac")).toMatchObject({
+      title: "New",
+      artist: "Kept",
+      year: 2001,
+    });
+  });
+
+  it("keeps a full date unless its year is changed", async () => {
+    const original = concatBytes([
+      encodeAscii("fLaC"),
+      block(0, streamInfo),
+      block(4, vorbisComment(["TITLE=Old", "DATE=2001-05-03"]), true),
+      flacAudio,
+    ]);
+
+    const unchanged = writeFlacTags(original, { title: "New", year: 2001 });
+    expect(indexOfBytes(unchanged, encodeUtf8("DATE=2001-05-03"))).toBeGreaterThan(-1);
+    expect((await readTags(bytesSource(writeFlacTags(original, { year: 2002 })), "song.flac")).year).toBe(2002);
+  });
+});
+
+// The strings of a COMM or USLT frame: language, description and text
+function readCommentParts(data: Uint8Array) {
+  const encoding = data[0];
+  const language = decodeId3Text(0, data.subarray(1, 4));
+  const [description, ...rest] = decodeId3Text(encoding, data.subarray(4)).split("\0");
+  return [language, description, rest.join("\0").replace(/^﻿/, "")];
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array) {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
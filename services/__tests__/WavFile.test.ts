@@ -0,0 +1,125 @@
+import { bytesSource, concatBytes, encodeAscii, writeUint16LE, writeUint32LE } from "@/services/Binary";
+import { buildWavFile, clipByteRange, extractWavClip, readWavInfo, WAVE_FORMAT_IEEE_FLOAT } from "@/services/WavFile";
+
+const formatChunk = (formatTag: number, channels: number, sampleRate: number, bitsPerSample: number) => {
+  const body = new Uint8Array(16);
+  const blockAlign = (channels * bitsPerSample) / 8;
+  writeUint16LE(body, 0, formatTag);
+  writeUint16LE(body, 2, channels);
+  writeUint32LE(body, 4, sampleRate);
+  writeUint32LE(body, 8, sampleRate * blockAlign);
+  writeUint16LE(body, 12, blockAlign);
+  writeUint16LE(body, 14, bitsPerSample);
+  return body;
+};
+
+const chunk = (id: string, body: Uint8Array) => {
+  const header = new Uint8Array(8);
+  header.set(encodeAscii(id), 0);
+  writeUint32LE(header, 4, body.length);
+  return concatBytes(body.length % 2 ? [header, body, new Uint8Array(1)] : [header, body]);
+};
+
+const riff = (...chunks: Uint8Array[]) => {
+  const body = concatBytes([encodeAscii("WAVE"), ...chunks]);
+  return concatBytes([encodeAscii("RIFF"), new Uint8Array([body.length, body.length >> 8, 0, 0]), body]);
+};
+
+// 16-bit stereo at 1 kHz: 4 bytes per frame, 1000 frames per second
+const stereo16 = formatChunk(1, 2, 1000, 16);
+const samples = (frames: number) => Uint8Array.from({ length: frames * 4 }, (_, i) => i & 0xff);
+
+describe("readWavInfo", () => {
+  it("reads the format and locates the samples past other chunks", async () => {
+    const file = riff(chunk("fmt ", stereo16), chunk("LIST", new Uint8Array(3)), chunk("data", samples(500)));
+    const info = await readWavInfo(bytesSource(file));
+
+    expect(info).toMatchObject({ formatTag: 1, channels: 2, sampleRate: 1000, bitsPerSample: 16, blockAlign: 4 });
+    // RIFF header, fmt chunk, LIST chunk padded to 4 bytes, data chunk header
+    expect(info.dataOffset).toBe(12 + 24 + 12 + 8);
+    expect(info.dataSize).toBe(2000);
+    expect(info.frameCount).toBe(500);
+    expect(info.duration).toBe(500);
+  });
+
+  it("uses the file length when the data size was never filled in", async () => {
+    const file = riff(chunk("fmt ", stereo16), chunk("data", samples(250)));
+    writeUint32LE(file, 40, 0xffffffff);
+
+    const info = await readWavInfo(bytesSource(file));
+    expect(info.frameCount).toBe(250);
+  });
+
+  it("reports the sub-format of extensible files", async () => {
+    const extensible = new Uint8Array(40);
+    extensible.set(formatChunk(0xfffe, 1, 8000, 32), 0);
+    writeUint16LE(extensible, 24, WAVE_FORMAT_IEEE_FLOAT);
+
+    const info = await readWavInfo(bytesSource(riff(chunk("fmt ", extensible), chunk("data", samples(10)))));
+    expect(info.formatTag).toBe(WAVE_FORMAT_IEEE_FLOAT);
+    expect(info.formatChunk).toHaveLength(40);
+  });
+
+  it("rejects compressed and malformed files", async () => {
+    const adpcm = riff(chunk("fmt ", formatChunk(2, 1, 8000, 4)), chunk("data", samples(10)));
+    await expect(readWavInfo(bytesSource(adpcm))).rejects.toThrow("Unsupported WAV encoding 2");
+    await expect(readWavInfo(bytesSource(riff(chunk("data", samples(10)))))).rejects.toThrow("before its format");
+    await expect(readWavInfo(bytesSource(riff(chunk("fmt ", stereo16))))).rejects.toThrow("no data chunk");
+    await expect(readWavInfo(bytesSource(encodeAscii("ID3 not a wav")))).rejects.toThrow("Not a WAV file");
+  });
+});
+
+describe("clipByteRange", () => {
+  const info = {
+    formatTag: 1,
+    channels: 2,
+    sampleRate: 1000,
+    bitsPerSample: 16,
+    blockAlign: 4,
+    formatChunk: stereo16,
+    dataOffset: 44,
+    dataSize: 4000,
+    frameCount: 1000,
+    duration: 1000,
+  };
+
+  it("snaps positions to whole frames", () => {
+    expect(clipByteRange(info, 100.4, 250.6)).toEqual({ offset: 44 + 100 * 4, length: 151 * 4, duration: 151 });
+  });
+
+  it("accepts the ends in either order and clamps them to the data", () => {
+    expect(clipByteRange(info, 900, -50)).toEqual({ offset: 44, length: 900 * 4, duration: 900 });
+    expect(clipByteRange(info, 800, 5000)).toEqual({ offset: 44 + 800 * 4, length: 200 * 4, duration: 200 });
+  });
+});
+
+describe("buildWavFile", () => {
+  it("writes a file that reads back with the same format and samples", async () => {
+    const data = samples(300);
+    const file = buildWavFile(stereo16, data);
+    const info = await readWavInfo(bytesSource(file));
+
+    expect(file).toHaveLength(44 + data.length);
+    expect(info.formatChunk).toEqual(stereo16);
+    expect(file.subarray(info.dataOffset, info.dataOffset + info.dataSize)).toEqual(data);
+  });
+
+  it("pads odd-sized chunks without counting the pad byte", async () => {
+    const mono8 = formatChunk(1, 1, 8000, 8);
+    const file = buildWavFile(mono8, new Uint8Array(3));
+
+    expect(file).toHaveLength(44 + 4);
+    expect(file[40]).toBe(3);
+    expect((await readWavInfo(bytesSource(file))).frameCount).toBe(3);
+  });
+
+  it("extracts a clip as a playable file of its own", async () => {
+    const source = bytesSource(riff(chunk("fmt ", stereo16), chunk("data", samples(1000))));
+    const info = await readWavInfo(source);
+    const clip = await readWavInfo(bytesSource(await extractWavClip(source, info, 200, 300)));
+
+    expect(clip.frameCount).toBe(100);
+    expect(clip.duration).toBe(100);
+    await expect(extractWavClip(source, info, 400, 400)).rejects.toThrow("The clip is empty");
+  });
+});
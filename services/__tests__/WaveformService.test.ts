@@ -0,0 +1,74 @@
+import { bytesSource, writeUint16LE } from "@/services/Binary";
+import { fileSource } from "@/services/FileBytes";
+import { buildWavFile, readWavInfo } from "@/services/WavFile";
+import { computePeaks, waveformService } from "@/services/WaveformService";
+import * as FileSystem from "expo-file-system";
+
+jest.mock("@/services/FileBytes", () => ({ fileSource: jest.fn() }));
+
+// Nothing is cached on disk, and the audio file's modification time can be changed by the test
+jest.mock("expo-file-system", () => {
+  const audioFile = { exists: true, size: 0, modificationTime: 1 };
+  return {
+    audioFile,
+    cacheDirectory: "file:///cache/",
+    makeDirectoryAsync: async () => {},
+    getInfoAsync: async (uri: string) => (uri.endsWith(".wav") ? audioFile : { exists: false }),
+    writeAsStringAsync: async () => {},
+    readDirectoryAsync: async () => [],
+    deleteAsync: async () => {},
+  };
+});
+
+// 16-bit mono at 8 kHz
+const format = new Uint8Array(16);
+writeUint16LE(format, 0, 1);
+writeUint16LE(format, 2, 1);
+format.set([0x40, 0x1f, 0, 0], 4);
+writeUint16LE(format, 12, 2);
+writeUint16LE(format, 14, 16);
+
+const wav = (samples: number[]) => {
+  const data = new Uint8Array(samples.length * 2);
+  samples.forEach((sample, i) => writeUint16LE(data, i * 2, Math.round(sample * 32767) & 0xffff));
+  return bytesSource(buildWavFile(format, data));
+};
+
+describe("computePeaks", () => {
+  it("finds peaks anywhere in a bucket, not just at its start", async () => {
+    // Two buckets of 100,000 frames each, with a single click near the end of the first
+    const samples = new Array(200000).fill(0.01);
+    samples[99000] = 0.9;
+    samples[150000] = -0.5;
+    const source = wav(samples);
+
+    const peaks = await computePeaks(source, await readWavInfo(source), 2);
+    expect(peaks.max).toEqual([0.9, 0.01]);
+    expect(peaks.min).toEqual([0, -0.5]);
+  });
+
+  it("gives every bucket a frame when there are fewer frames than buckets", async () => {
+    const source = wav([0.5, -0.25, 1]);
+
+    const peaks = await computePeaks(source, await readWavInfo(source), 6);
+    expect(peaks.max).toEqual([0.5, 0.5, 0, 0, 1, 1]);
+    expect(peaks.min).toEqual([0, 0, -0.25, -0.25, 0, 0]);
+  });
+});
+
+describe("waveformService", () => {
+  it("reads a file again once it has changed", async () => {
+    const track = { id: "clip", title: "Clip", uri: "file:///clip.wav", fileName: "clip.wav" };
+    jest.mocked(fileSource).mockImplementation(async () => wav([0.5, -0.5]));
+    const audioFile = (FileSystem as unknown as { audioFile: { modificationTime: number } }).audioFile;
+
+    const first = await waveformService.getPeaks(track);
+    expect(await waveformService.getPeaks(track)).toBe(first);
+    expect(fileSource).toHaveBeenCalledTimes(1);
+
+    audioFile.modificationTime = 2;
+    jest.mocked(fileSource).mockImplementation(async () => wav([0.25, -0.25]));
+    expect((await waveformService.getPeaks(track))!.max).toContain(0.25);
+    expect(waveformService.getCachedPeaks(track.id)!.max).toContain(0.25);
+  });
+});